@@ -0,0 +1,91 @@
+import { Variable as V, Validator, ErrorFormatter, diffChanges } from "../src";
+
+describe("changes", () => {
+  const schema = V.Object({
+    title: V.String({ default: "Hello" }),
+    count: V.Optional(V.Integer()),
+    color: V.Color({ normalize: true }),
+    tags: V.Optional(V.Array(V.String())),
+    author: V.Optional(V.Object({ name: V.String() }, { additionalProperties: false })),
+  });
+
+  it("lists what parse changed", () => {
+    const validator = new Validator(schema);
+    const { data, changes } = validator.parse(
+      { titel: "Hi", count: "2", color: "rebeccapurple", tags: "a", author: { name: "Patricio", age: 30 } },
+      { changes: true },
+    );
+    expect(data).toMatchObject({ titel: "Hi", title: "Hello", count: 2, tags: ["a"], author: { name: "Patricio" } });
+    expect(changes).toEqual([
+      { path: "/count", kind: "coerced", before: "2", after: 2 },
+      { path: "/color", kind: "normalized", before: "rebeccapurple", after: "#663399" },
+      { path: "/tags", kind: "coerced", before: "a", after: ["a"] },
+      { path: "/author/age", kind: "removed-additional", before: 30 },
+      { path: "/title", kind: "default-applied", after: "Hello" },
+    ]);
+    expect(validator.parse({}).changes).toBeNull();
+  });
+
+  it("diffs values", () => {
+    expect(diffChanges({ color: "fff", list: [1, "2"] }, { color: "#FFFFFF", list: [1, 2] })).toEqual([
+      { path: "/color", kind: "normalized", before: "fff", after: "#FFFFFF" },
+      { path: "/list/1", kind: "coerced", before: "2", after: 2 },
+    ]);
+    expect(diffChanges({ "a/b": 1 }, {})).toEqual([{ path: "/a~1b", kind: "removed-additional", before: 1 }]);
+  });
+});
+
+describe("strict", () => {
+  const schema = V.Object({
+    title: V.String(),
+    items: V.Array(V.Object({ label: V.String() })),
+    labels: V.Optional(V.Record(V.String(), V.String())),
+  });
+
+  it("reports unknown keys as errors", () => {
+    const validator = new Validator(schema);
+    const variables = { title: "Hi", titel: "Hello", items: [{ label: "a", labl: "b" }], labels: { any: "c" } };
+    expect(validator.parse(variables).isValid).toBe(true);
+
+    const { isValid, errors } = validator.parse(variables, { strict: true });
+    expect(isValid).toBe(false);
+    expect(errors).toEqual([
+      {
+        instancePath: "",
+        schemaPath: "#/additionalProperties",
+        keyword: "additionalProperties",
+        params: { additionalProperty: "titel" },
+        message: "must NOT have additional properties",
+      },
+      {
+        instancePath: "/items/0",
+        schemaPath: "#/properties/items/items/additionalProperties",
+        keyword: "additionalProperties",
+        params: { additionalProperty: "labl" },
+        message: "must NOT have additional properties",
+      },
+    ]);
+    expect(new ErrorFormatter(schema).format(errors)).toEqual({
+      titel: { key: "titel", label: "Titel", messages: ["Titel is not a known variable"] },
+      items: { key: "items", label: "Items", messages: ["Labl is not a known variable"] },
+    });
+    expect(validator.parse({ title: "Hi", items: [] }, { strict: true }).isValid).toBe(true);
+  });
+
+  it("reports keys named like members of Object.prototype", () => {
+    const validator = new Validator(schema);
+    const variables = { title: "Hi", items: [], toString: "a", constructor: "b", hasOwnProperty: "c" };
+    const { isValid, errors } = validator.parse(variables, { strict: true });
+    expect(isValid).toBe(false);
+    expect((errors || []).map(error => error.params["additionalProperty"])).toEqual([
+      "toString",
+      "constructor",
+      "hasOwnProperty",
+    ]);
+    expect(Object.keys(new ErrorFormatter(schema).format(errors))).toEqual([
+      "toString",
+      "constructor",
+      "hasOwnProperty",
+    ]);
+  });
+});
@@ -0,0 +1,199 @@
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { Variable as V, toDeclaration, toJSON } from "../src";
+import { cli } from "../src/cli";
+
+const SCHEMA = join(__dirname, "fixtures", "schema.ts");
+
+const directory = mkdtempSync(join(tmpdir(), "flyyer-variables-cli-"));
+writeFileSync(join(directory, "valid.json"), JSON.stringify({ author: { name: "Patricio" }, count: "2" }));
+writeFileSync(join(directory, "invalid.json"), JSON.stringify({ count: -1, author: {} }));
+writeFileSync(join(directory, "typo.json"), JSON.stringify({ titel: "Hi", count: "2", author: { name: "Patricio" } }));
+
+async function run(...argv: string[]) {
+  const output = { stdout: "", stderr: "" };
+  const code = await cli(argv, {
+    cwd: directory,
+    stdout: text => (output.stdout += text),
+    stderr: text => (output.stderr += text),
+  });
+  return { code, ...output };
+}
+
+describe("cli", () => {
+  it("validates variables", async () => {
+    const valid = await run("validate", SCHEMA, "valid.json");
+    expect(valid).toEqual({ code: 0, stdout: "Valid variables\n", stderr: "" });
+
+    const invalid = await run("validate", SCHEMA, "invalid.json");
+    expect(invalid.code).toBe(1);
+    expect(invalid.stdout).toBe(
+      [
+        "Invalid variables:",
+        "  /count: Count must be greater than or equal to 0",
+        "  /author: Name is required",
+        "",
+      ].join("\n"),
+    );
+
+    const json = await run("validate", SCHEMA, "valid.json", "--json");
+    expect(JSON.parse(json.stdout)).toEqual({
+      isValid: true,
+      data: { title: "Hello", count: 2, author: { name: "Patricio" }, tags: [] },
+      errors: [],
+    });
+  }, 30000);
+
+  it("reports changes and unknown keys", async () => {
+    const { code, stdout } = await run("validate", SCHEMA, "typo.json", "--strict", "--changes");
+    expect(code).toBe(1);
+    expect(stdout).toBe(
+      [
+        "Invalid variables:",
+        "  /titel: Titel is not a known variable",
+        "Changes:",
+        '  /count: coerced "2" -> 2',
+        '  /title: default-applied (missing) -> "Hello"',
+        "  /tags: default-applied (missing) -> []",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("inspects variables", async () => {
+    const { code, stdout } = await run("inspect", SCHEMA);
+    expect(code).toBe(0);
+    expect(stdout.split("\n")).toEqual([
+      "PATH            KIND     REQUIRED  DEFAULT  EXAMPLES",
+      '/title          text     required  "Hello"  ["Hello","World"]',
+      "/count          integer  optional",
+      "/author         object   required",
+      "/author/name    text     required",
+      "/author/avatar  image    optional",
+      "/tags           array    required  []",
+      "/tags/*/label   text     required",
+      "",
+    ]);
+    const json = await run("inspect", SCHEMA, "--export", "other", "--json");
+    expect(JSON.parse(json.stdout)).toEqual([{ path: "/name", kind: "text", required: true }]);
+  });
+
+  it("exports JSON Schema and TypeScript declarations", async () => {
+    const { stdout } = await run("export", SCHEMA);
+    const json = JSON.parse(stdout);
+    expect(json).toMatchObject({ $schema: "http://json-schema.org/draft-07/schema#", type: "object" });
+    expect(json.properties.title).toEqual({
+      type: "string",
+      description: "Main text",
+      default: "Hello",
+      examples: ["Hello", "World"],
+    });
+
+    expect(
+      await run("export", SCHEMA, "--format=dts", "--name", "TemplateVariables", "--out", "variables.d.ts"),
+    ).toEqual({ code: 0, stdout: "", stderr: "" });
+    expect(readFileSync(join(directory, "variables.d.ts"), "utf8")).toBe(
+      [
+        "export interface TemplateVariables {",
+        "  /**",
+        "   * Main text",
+        '   * @default "Hello"',
+        "   */",
+        "  title: string;",
+        "  count?: number;",
+        "  author: {",
+        "    name: string;",
+        "    avatar?: string;",
+        "  };",
+        "  /** @default [] */",
+        "  tags: {",
+        "    label: string;",
+        "  }[];",
+        "}",
+        "",
+      ].join("\n"),
+    );
+
+    const openapi = JSON.parse((await run("export", SCHEMA, "--format", "openapi")).stdout);
+    expect(Object.keys(openapi.components.parameters)).toEqual([
+      "title",
+      "count",
+      "author.name",
+      "author.avatar",
+      "tags",
+    ]);
+  });
+
+  it("loads JSON schemas", async () => {
+    const schema = V.Object({ name: V.String(), color: V.Optional(V.ColorHex()) });
+    writeFileSync(join(directory, "schema.json"), JSON.stringify(toJSON(schema)));
+    writeFileSync(join(directory, "color.json"), JSON.stringify({ name: "Flyyer", color: "red" }));
+    const { code, stdout } = await run("validate", "schema.json", "color.json", "--locale", "es");
+    expect(code).toBe(1);
+    expect(stdout).toContain("/color: Color debe ser un color válido como #FFFFFF");
+  });
+
+  it("exports standard JSON Schema keywords only", async () => {
+    const schema = V.Object({
+      title: V.LocalizedString({ default: "Hello" }),
+      brand: V.Nullable(V.Color({ normalize: true })),
+      typeface: V.Font({ families: ["Inter"] }),
+    });
+    writeFileSync(join(directory, "keywords.json"), JSON.stringify(toJSON(schema)));
+    const { stdout } = await run("export", "keywords.json");
+    for (const keyword of ["localized", "normalize", "font", "nullable"]) {
+      expect(stdout).not.toContain(`"${keyword}":`);
+    }
+    expect(JSON.parse(stdout).properties.brand).toMatchObject({ type: ["string", "null"], format: "color" });
+  });
+
+  it("fails with usage errors", async () => {
+    expect((await run()).code).toBe(2);
+    expect((await run("--help")).code).toBe(0);
+    const unknown = await run("build", SCHEMA);
+    expect(unknown.code).toBe(2);
+    expect(unknown.stderr).toMatch(/^Unknown command build\n\nUsage: flyyer-variables/);
+    expect((await run("validate", SCHEMA)).stderr).toMatch(/^Missing <vars.json>/);
+    expect((await run("validate", SCHEMA, "missing.json")).stderr).toMatch(/^Can't read missing.json/);
+    expect((await run("inspect", SCHEMA, "--export", "missing")).stderr).toMatch(/has no exported `missing`/);
+    expect((await run("export", SCHEMA, "--format", "yaml")).stderr).toMatch(/^Unknown format yaml/);
+  });
+});
+
+describe("toDeclaration", () => {
+  enum Alignment {
+    Left = "left",
+    Right = "right",
+  }
+
+  it("declares facades and unions", () => {
+    const schema = V.Object({
+      label: V.LocalizedString(),
+      font: V.Font({ descriptor: true }),
+      alignment: V.Enum(Alignment),
+      image: V.Nullable(V.Image()),
+      values: V.Array(V.Union([V.String(), V.Number()])),
+      "data-id": V.Readonly(V.String()),
+      meta: V.Record(V.String(), V.Boolean()),
+    });
+    expect(toDeclaration(schema)).toBe(
+      [
+        "export interface Variables {",
+        "  label: string;",
+        '  font: { family: string; weights: (100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900)[]; styles: ("normal" | "italic")[]; fallback: string };',
+        '  alignment: "left" | "right";',
+        "  image: string | null;",
+        "  values: (string | number)[];",
+        '  readonly "data-id": string;',
+        "  meta: {",
+        "    [key: string]: boolean;",
+        "  };",
+        "}",
+        "",
+      ].join("\n"),
+    );
+    expect(toDeclaration(V.Array(V.String()), { name: "Tags" })).toBe("export type Tags = string[];\n");
+  });
+});
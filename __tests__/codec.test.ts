@@ -0,0 +1,103 @@
+import { URLSearchParams } from "url";
+
+import { Variable as V, QueryCodec, Validator } from "../src";
+
+describe("QueryCodec", () => {
+  enum Mode {
+    Light = "light",
+    Dark = "dark",
+  }
+  const schema = V.Object({
+    title: V.Object({
+      text: V.String(),
+      font: V.Font({ default: "Inter" }),
+    }),
+    count: V.Integer({ default: 1 }),
+    dark: V.Boolean(),
+    price: V.Nullable(V.Number()),
+    subtitle: V.Nullable(V.String()),
+    tags: V.Array(V.String()),
+    points: V.Array(V.Object({ x: V.Number(), y: V.Number() })),
+    mode: V.EnumKeys(Mode),
+  });
+  const codec = new QueryCodec(schema);
+
+  it("decodes bracket nesting and coerces by declared type", () => {
+    const variables = codec.decode(
+      "?title[text]=Hello&title[font]=Roboto&count=3&dark=true&price=null&subtitle=&tags[]=a&tags[]=b&points[0][x]=1&points[0][y]=2&points[1][x]=3&mode=Dark",
+    );
+    expect(variables).toEqual({
+      title: { text: "Hello", font: "Roboto" },
+      count: 3,
+      dark: true,
+      price: null,
+      subtitle: "",
+      tags: ["a", "b"],
+      points: [{ x: 1, y: 2 }, { x: 3 }],
+      mode: "Dark",
+    });
+  });
+
+  it("decodes URLSearchParams, repeated keys and percent-encoded brackets", () => {
+    const params = new URLSearchParams("title%5Btext%5D=Hi&tags=a&tags=b&dark=0&price=");
+    expect(codec.decode(params)).toEqual({
+      title: { text: "Hi" },
+      tags: ["a", "b"],
+      dark: false,
+      price: null,
+    });
+    expect(codec.decode("tags=single")).toEqual({ tags: ["single"] });
+  });
+
+  it("ignores prototype keys and keeps malformed percent-encoding", () => {
+    const variables = codec.decode("__proto__[polluted]=yes&title[constructor][prototype][x]=1&constructor=a");
+    expect(({} as any).polluted).toBeUndefined();
+    expect(variables).toEqual({});
+    expect(codec.decode("title[text]=100%&tags[]=50%25")).toEqual({ title: { text: "100%" }, tags: ["50%"] });
+  });
+
+  it("decodes keys named like members of Object.prototype", () => {
+    expect(codec.decode("toString=x&title[hasOwnProperty]=1&valueOf=2&valueOf=3")).toEqual({
+      toString: "x",
+      title: { hasOwnProperty: "1" },
+      valueOf: ["2", "3"],
+    });
+    expect(codec.encode({ toString: "x", title: { valueOf: "1" } } as any)).toBe("toString=x&title[valueOf]=1");
+  });
+
+  it("keeps invalid values so the Validator can report them", () => {
+    const variables = codec.decode("count=many&dark=maybe");
+    expect(variables).toEqual({ count: "many", dark: "maybe" });
+    const validator = new Validator(schema);
+    expect(validator.parse(variables).isValid).toBe(false);
+  });
+
+  it("encodes variables and drops values equal to default", () => {
+    const query = codec.encode({
+      title: { text: "Hello world", font: "Inter" },
+      count: 1,
+      dark: false,
+      price: null,
+      tags: ["a", "b"],
+      points: [{ x: 1, y: 2 }],
+    });
+    expect(query).toBe(
+      "title[text]=Hello%20world&dark=false&price=null&tags[]=a&tags[]=b&points[0][x]=1&points[0][y]=2",
+    );
+    expect(codec.encode({ count: 1 }, { skipDefaults: false })).toBe("count=1");
+  });
+
+  it("round-trips", () => {
+    const variables = {
+      title: { text: "Hello & bye", font: "Roboto" },
+      count: 5,
+      dark: true,
+      price: 59.99,
+      subtitle: null,
+      tags: ["x"],
+      points: [{ x: 0, y: -1 }],
+      mode: "Light" as const,
+    };
+    expect(codec.decode(codec.encode(variables))).toEqual(variables);
+  });
+});
@@ -0,0 +1,75 @@
+import { Variable as V, Validator, Is, ErrorFormatter, lint, normalizeColor, parseColor } from "../src";
+
+describe("parseColor", () => {
+  it("parses CSS Color Level 4 syntaxes", () => {
+    expect(parseColor("#abc")).toEqual({ syntax: "hex", red: 170, green: 187, blue: 204, alpha: 1 });
+    expect(parseColor("RebeccaPurple")).toEqual({ syntax: "named", red: 102, green: 51, blue: 153, alpha: 1 });
+    expect(parseColor("rgba(255, 0, 0, 0.5)")).toEqual({ syntax: "rgb", red: 255, green: 0, blue: 0, alpha: 0.5 });
+    expect(parseColor("rgb(100% 0% 0% / 50%)")).toEqual({ syntax: "rgb", red: 255, green: 0, blue: 0, alpha: 0.5 });
+    expect(parseColor("hsl(120deg, 100%, 25%)")).toMatchObject({ syntax: "hsl", red: 0, green: 128, blue: 0 });
+    expect(parseColor("hsl(0.5turn 50 50)")).toMatchObject({ syntax: "hsl", red: 64, green: 191, blue: 191 });
+    expect(parseColor("hwb(0 0% 0%)")).toMatchObject({ syntax: "hwb", red: 255, green: 0, blue: 0 });
+    expect(parseColor("lab(100 0 0)")).toMatchObject({ syntax: "lab", red: 255, green: 255, blue: 255 });
+    expect(parseColor("lch(52.2345% 72.2 56.2)")).toMatchObject({ syntax: "lch", red: 198, green: 93, blue: 6 });
+    expect(parseColor("oklab(62.8% 0.2249 0.1258)")).toMatchObject({ syntax: "oklab", red: 255, green: 0, blue: 0 });
+    expect(parseColor("oklch(0.628 0.2577 29.23)")).toMatchObject({ syntax: "oklch", red: 255, green: 0, blue: 0 });
+  });
+
+  it("rejects invalid and unsupported values", () => {
+    expect(parseColor("currentcolor")).toBeNull();
+    expect(parseColor("color(srgb 1 0 0)")).toBeNull();
+    expect(parseColor("abc")).toBeNull();
+    expect(parseColor("rgb(1 2)")).toBeNull();
+    expect(parseColor("rgb(1, 2 3)")).toBeNull();
+    expect(parseColor("lab(50, 20, 30)")).toBeNull();
+    expect(parseColor("hsl(10% 50% 50%)")).toBeNull();
+    expect(parseColor("constructor")).toBeNull();
+    expect(parseColor("__proto__")).toBeNull();
+    expect(parseColor("toString(1 2 3)")).toBeNull();
+  });
+
+  it("normalizes to hexadecimal", () => {
+    expect(normalizeColor("rebeccapurple")).toBe("#663399");
+    expect(normalizeColor("#abcd")).toBe("#AABBCCDD");
+    expect(normalizeColor("hsl(0 100% 50% / 0.5)")).toBe("#FF000080");
+    expect(normalizeColor("transparent")).toBe("#00000000");
+    expect(normalizeColor("not a color")).toBe("not a color");
+  });
+});
+
+describe("Variable.Color", () => {
+  const schema = V.Object({
+    brand: V.Color({ normalize: true }),
+    background: V.Optional(V.Color({ syntaxes: ["hex", "rgb"] })),
+  });
+  const validator = new Validator(schema);
+
+  it("is detected as a color", () => {
+    expect(schema.properties.brand.format).toBe("color");
+    expect(Is.Color(schema.properties.brand)).toBe(true);
+    expect(Is.ColorHex(schema.properties.brand)).toBe(false);
+    expect(Is.kindOf(schema.properties.brand)).toBe("color");
+    expect(lint(V.Object({ color: V.Color({ examples: ["red", "#FFF", "oklch(0.7 0.1 200)"] }) }))).toEqual([]);
+  });
+
+  it("validates and normalizes during parse", () => {
+    expect(validator.parse({ brand: "rgb(102 51 153)" })).toMatchObject({ isValid: true, data: { brand: "#663399" } });
+    expect(validator.parse({ brand: "hsla(0, 100%, 50%, 0.5)" }).data.brand).toBe("#FF000080");
+    expect(validator.parse({ brand: "#663399", background: "rgb(0 0 0)" }).data.background).toBe("rgb(0 0 0)");
+    expect(validator.parse({ brand: "nope" }).isValid).toBe(false);
+    expect(validator.parse({ brand: "constructor" }).isValid).toBe(false);
+  });
+
+  it("restricts syntaxes", () => {
+    expect(validator.parse({ brand: "red", background: "#000" }).isValid).toBe(true);
+    const { isValid, errors } = validator.parse({ brand: "red", background: "hsl(0 0% 0%)" });
+    expect(isValid).toBe(false);
+    expect(new ErrorFormatter(schema).format(errors)).toEqual({
+      background: {
+        key: "background",
+        label: "Background",
+        messages: ["Background must be a valid color like #FFFFFF"],
+      },
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { Variable as V, Validator } from "../src";
+import { CompiledValidator, compile } from "../src/compile";
+
+enum Alignment {
+  Left = "left",
+  Center = "center",
+}
+
+/** Evaluate the generated CommonJS module */
+function load<T>(code: string): T {
+  const module = { exports: {} };
+  new Function("module", "exports", "require", code)(module, module.exports, require);
+  return module.exports as T;
+}
+
+describe("compile", () => {
+  const schema = V.Object(
+    {
+      title: V.String({ default: "Hello", maxLength: 20 }),
+      description: V.Optional(V.String()),
+      count: V.Optional(V.Integer({ default: 10, minimum: 0 })),
+      color: V.ColorHex({ default: "#FFFFFF" }),
+      background: V.Nullable(V.Image()),
+      alignment: V.EnumKeys(Alignment, { default: "Left" }),
+      price: V.Optional(V.Price({ currency: true })),
+      phone: V.Optional(V.Phone()),
+      country: V.Optional(V.Country()),
+      tags: V.Optional(V.Array(V.String())),
+      createdAt: V.Optional(V.DateTime()),
+    },
+    { additionalProperties: false },
+  );
+  const code = compile(schema);
+  const compiled = load<CompiledValidator<typeof schema>>(code);
+  const validator = new Validator(schema);
+
+  it("doesn't require Ajv", () => {
+    const required = (code.match(/require\("[^"]+"\)/g) || []).map(match => match.slice(9, -2));
+    expect(required.length).toBeGreaterThan(0);
+    required.forEach(path => expect(path).toMatch(/^(ajv\/dist\/runtime\/|ajv-formats\/dist\/formats$)/));
+  });
+
+  it("parses the same as Validator", () => {
+    const inputs: unknown[] = [
+      {},
+      { title: "Title", count: "42", extra: "removed", tags: "single" },
+      { color: "nope", background: "not a url", alignment: "left", count: -1 },
+      { price: { amount: "9.99", currency: "USD" }, phone: "+56912345678", country: "CL" },
+      { price: { amount: 1, currency: "XYZ" }, phone: "912345678", country: "Chile" },
+      { background: null, createdAt: "2021-01-01T00:00:00Z", title: "This title is way too long" },
+    ];
+    for (const input of inputs) {
+      expect(compiled.parse(input)).toEqual(validator.parse(input));
+    }
+  });
+
+  it("validates and mutates the same as Validator", () => {
+    const variables: any = { count: "3", background: null, extra: true };
+    const expected = { ...variables };
+    expect(compiled.validate(variables)).toBe(true);
+    expect(validator.validate(expected)).toBe(true);
+    expect(variables).toEqual(expected);
+    expect(variables).toEqual({ title: "Hello", count: 3, color: "#FFFFFF", background: null, alignment: "Left" });
+  });
+
+  it("throws for features that need this package at runtime", () => {
+    expect(() => compile(V.Object({ title: V.LocalizedString() }))).toThrow(
+      "Not supported by compiled validators: V.LocalizedString",
+    );
+    expect(() => compile(V.Object({ color: V.Color(), phone: V.Phone({ normalize: true }) }))).toThrow(
+      "Not supported by compiled validators: V.Color, normalize",
+    );
+    expect(() => compile(V.Versioned(V.Object({})))).toThrow(Error);
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  Variable as V,
+  Validator,
+  ErrorFormatter,
+  Is,
+  Static,
+  formFields,
+  isVisible,
+  lint,
+  toDeclaration,
+} from "../src";
+
+describe("V.When", () => {
+  const schema = V.Object({
+    background: V.Union([V.Literal("solid"), V.Literal("gradient"), V.Literal("image")], { default: "solid" }),
+    gradientStart: V.When("background", "gradient", V.ColorHex()),
+    gradientEnd: V.When("background", "gradient", V.ColorHex()),
+    image: V.When("background", ["image"], V.Image()),
+    overlay: V.When("background", ["gradient", "image"], V.Boolean(), { required: false }),
+  });
+
+  it("compiles conditions to if/then rules", () => {
+    expect(schema.required).toEqual(["background"]);
+    expect((schema as any).allOf).toEqual([
+      {
+        if: { properties: { background: { const: "gradient" } }, required: ["background"] },
+        then: { required: ["gradientStart", "gradientEnd"] },
+      },
+      {
+        if: { properties: { background: { const: "image" } }, required: ["background"] },
+        then: { required: ["image"] },
+      },
+    ]);
+    expect(Is.Conditional(schema.properties.image)).toBe(true);
+    expect(Is.Conditional(schema.properties.background)).toBe(false);
+    expect(Is.Optional(schema.properties.image)).toBe(true);
+    expect(Is.kindOf(schema.properties.image)).toBe("image");
+  });
+
+  it("throws on unknown keys", () => {
+    expect(() => V.Object({ a: V.When("b", 1, V.String()) })).toThrow(/unknown variable "b"/);
+  });
+
+  it("requires properties only when the condition matches", () => {
+    const validator = new Validator(schema);
+    expect(validator.parse({}).isValid).toBe(true);
+    expect(validator.parse({ background: "image", image: "https://flyyer.io/a.png" }).isValid).toBe(true);
+    expect(validator.parse({ background: "gradient", gradientStart: "#000000", gradientEnd: "#FFFFFF" }).isValid).toBe(
+      true,
+    );
+
+    const { isValid, errors } = validator.parse({ background: "gradient", gradientStart: "#000000" });
+    expect(isValid).toBe(false);
+    expect(new ErrorFormatter(schema).format(errors)).toEqual({
+      gradientEnd: { key: "gradientEnd", label: "Gradient end", messages: ["Gradient end is required"] },
+    });
+  });
+
+  it("narrows Static as a discriminated union", () => {
+    const variables: Static<typeof schema>[] = [
+      { background: "gradient", gradientStart: "#000000", gradientEnd: "#FFFFFF" },
+      { background: "image", image: "https://flyyer.io/a.png", overlay: true },
+      { background: "solid" },
+    ];
+    // Missing `gradientEnd`
+    type Invalid = { background: "gradient"; gradientStart: string } extends Static<typeof schema> ? true : false;
+    const invalid: Invalid = false;
+    expect(invalid).toBe(false);
+    const values = variables.map(item => {
+      if (item.background === "gradient") return item.gradientEnd.length;
+      return item.image;
+    });
+    expect(values).toEqual([7, "https://flyyer.io/a.png", undefined]);
+  });
+
+  it("exposes conditions to forms", () => {
+    const fields = formFields(schema);
+    expect(fields.map(field => field.when)).toEqual([
+      undefined,
+      { key: "background", values: ["gradient"], required: true },
+      { key: "background", values: ["gradient"], required: true },
+      { key: "background", values: ["image"], required: true },
+      { key: "background", values: ["gradient", "image"], required: false },
+    ]);
+    const visible = (variables: unknown) => fields.filter(field => isVisible(field, variables)).map(field => field.key);
+    expect(visible({ background: "image" })).toEqual(["background", "image", "overlay"]);
+    expect(visible({})).toEqual(["background"]);
+    expect(isVisible(schema.properties.gradientEnd, { background: "gradient" })).toBe(true);
+  });
+
+  it("declares the same discriminated union as Static", () => {
+    expect(toDeclaration(schema)).toBe(
+      [
+        "export type Variables = {",
+        '  /** @default "solid" */',
+        '  background: "solid" | "gradient" | "image";',
+        "  gradientStart?: string;",
+        "  gradientEnd?: string;",
+        "  image?: string;",
+        "  overlay?: boolean;",
+        '} & ({ background: "gradient"; gradientStart: string; gradientEnd: string } | { background?: "solid" | "image"; gradientStart?: string; gradientEnd?: string }) & ({ background: "image"; image: string } | { background?: "solid" | "gradient"; image?: string });',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("declares and lints conditional objects", () => {
+    const nested = V.Object({ style: V.Object({ mode: V.String(), size: V.When("mode", "custom", V.Integer()) }) });
+    expect(toDeclaration(nested)).toContain("size?: number;");
+    expect(toDeclaration(nested)).toContain(
+      '({ mode: "custom"; size: number } | { mode?: Exclude<string, "custom">; size?: number })',
+    );
+    expect(lint(nested).map(diagnostic => diagnostic.code)).toEqual(["unsupported-nesting"]);
+  });
+});
@@ -0,0 +1,131 @@
+import { Variable as V, diff, formatDiff } from "../src";
+
+enum Alignment {
+  Left = "left",
+  Center = "center",
+  Right = "right",
+}
+
+enum Size {
+  Small = "sm",
+  Large = "lg",
+}
+
+describe("diff", () => {
+  it("returns no changes for the same schema", () => {
+    const schema = V.Object({ title: V.String(), color: V.ColorHex({ default: "#FFFFFF" }) });
+    expect(diff(schema, schema)).toEqual([]);
+    expect(formatDiff([])).toBe("No changes");
+  });
+
+  it("classifies added and removed variables", () => {
+    const previous = V.Object({ title: V.String(), color: V.ColorHex() });
+    const next = V.Object({
+      title: V.String(),
+      image: V.Image(),
+      description: V.String({ default: "" }),
+      logo: V.Optional(V.Image()),
+    });
+    expect(diff(previous, next).map(({ path, severity, code }) => [path, severity, code])).toEqual([
+      ["/color", "breaking", "removed"],
+      ["/image", "breaking", "added-required"],
+      ["/description", "safe", "added"],
+      ["/logo", "safe", "added"],
+    ]);
+  });
+
+  it("escapes paths as JSON Pointers", () => {
+    const previous = V.Object({ "a/b": V.Object({ "c~d": V.String() }) });
+    const next = V.Object({ "a/b": V.Object({ "c~d": V.Integer() }), "e/f": V.Optional(V.String()) });
+    expect(diff(previous, next).map(({ path, code }) => [path, code])).toEqual([
+      ["/a~1b/c~0d", "type-changed"],
+      ["/e~1f", "added"],
+    ]);
+  });
+
+  it("classifies type, format and required changes", () => {
+    const previous = V.Object({
+      count: V.Integer(),
+      amount: V.Integer(),
+      url: V.String(),
+      title: V.Optional(V.String()),
+      subtitle: V.String(),
+      background: V.Nullable(V.ColorHex()),
+      label: V.String(),
+    });
+    const next = V.Object({
+      count: V.String(),
+      amount: V.Number(),
+      url: V.URL(),
+      title: V.String(),
+      subtitle: V.Optional(V.String()),
+      background: V.ColorHex(),
+      label: V.LocalizedString(),
+    });
+    expect(diff(previous, next).map(({ path, severity, code }) => [path, severity, code])).toEqual([
+      ["/count", "breaking", "type-changed"],
+      ["/amount", "safe", "type-changed"],
+      ["/url", "breaking", "format-changed"],
+      ["/title", "breaking", "required"],
+      ["/subtitle", "safe", "optional"],
+      ["/background", "risky", "nullable-removed"],
+      ["/label", "safe", "type-changed"],
+    ]);
+    expect(diff(next, previous).find(change => change.path === "/label")).toMatchObject({
+      severity: "breaking",
+      code: "type-changed",
+    });
+  });
+
+  it("classifies enums, constraints and defaults", () => {
+    const previous = V.Object({
+      alignment: V.Enum(Alignment),
+      size: V.EnumKeys(Size),
+      title: V.String({ maxLength: 20, default: "Hello" }),
+      count: V.Integer({ minimum: 0, maximum: 10 }),
+      items: V.Array(V.String({ minLength: 1 })),
+    });
+    const next = V.Object({
+      alignment: V.Enum({ Left: "left", Center: "center" }),
+      size: V.EnumKeys({ ...Size, Medium: "md" }),
+      title: V.String({ maxLength: 10 }),
+      count: V.Integer({ minimum: 1, maximum: 100 }),
+      items: V.Array(V.String({ minLength: 2 })),
+    });
+    const changes = diff(previous, next);
+    expect(changes.map(({ path, severity, code }) => [path, severity, code])).toEqual([
+      ["/alignment", "breaking", "enum-narrowed"],
+      ["/size", "safe", "enum-keys-changed"],
+      ["/title", "risky", "constraint-tightened"],
+      ["/title", "breaking", "default-changed"],
+      ["/count", "risky", "constraint-tightened"],
+      ["/count", "safe", "constraint-loosened"],
+      ["/items/*", "risky", "constraint-tightened"],
+    ]);
+    expect(changes[0]).toMatchObject({ before: ["left", "center", "right"], after: ["left", "center"] });
+
+    const changed = diff(V.Object({ size: V.EnumKeys(Size) }), V.Object({ size: V.Enum(Size) }));
+    expect(changed).toMatchObject([{ path: "/size", severity: "breaking", code: "enum-keys-changed" }]);
+    const defaults = diff(
+      V.Object({ title: V.String({ default: "A" }) }),
+      V.Object({ title: V.String({ default: "B" }) }),
+    );
+    expect(defaults).toMatchObject([
+      { path: "/title", severity: "risky", code: "default-changed", before: "A", after: "B" },
+    ]);
+  });
+
+  it("pretty prints grouped by severity", () => {
+    const previous = V.Object({ title: V.String(), color: V.ColorHex() });
+    const next = V.Object({ title: V.String({ maxLength: 40 }), image: V.Optional(V.Image()) });
+    expect(formatDiff(diff(previous, next))).toBe(
+      [
+        "BREAKING /color: Variable was removed",
+        "RISKY    /title: Added maxLength 40",
+        "SAFE     /image: New variable",
+        "",
+        "1 breaking, 1 risky, 1 safe",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,73 @@
+import { Variable as V, Validator, ErrorFormatter } from "../src";
+
+describe("ErrorFormatter", () => {
+  enum Alignment {
+    Y = "flex flex-col justify-center",
+    X = "flex flex-row justify-center",
+  }
+  const schema = V.Object({
+    title: V.String({ maxLength: 5 }),
+    color: V.ColorHex({ title: "Background color" }),
+    image: V.Image(),
+    alignment: V.EnumKeys(Alignment),
+    count: V.Integer({ minimum: 1 }),
+    logo: V.Object({ url: V.URL() }),
+  });
+  const validator = new Validator(schema);
+  const { errors } = validator.parse({
+    title: "Hello world",
+    color: "red",
+    image: "not an image url",
+    alignment: "Z",
+    count: 0,
+    logo: { url: "not a url" },
+  });
+
+  it("groups friendly messages by variable key", () => {
+    const formatter = new ErrorFormatter(schema);
+    expect(formatter.format(errors)).toEqual({
+      title: { key: "title", label: "Title", messages: ["Title must have at most 5 characters"] },
+      color: {
+        key: "color",
+        label: "Background color",
+        messages: ["Background color must be a valid color like #FFFFFF"],
+      },
+      image: { key: "image", label: "Image", messages: ["Image must be a valid image URL"] },
+      alignment: { key: "alignment", label: "Alignment", messages: ["Alignment must be one of: Y, X"] },
+      count: { key: "count", label: "Count", messages: ["Count must be greater than or equal to 1"] },
+      logo: { key: "logo", label: "Logo", messages: ["Url must be a valid URL"] },
+    });
+  });
+
+  it("reports missing variables and types", () => {
+    const formatter = new ErrorFormatter(schema);
+    const result = formatter.format(validator.parse({ count: "many" }).errors);
+    expect(result["title"]?.messages).toEqual(["Title is required"]);
+    expect(result["color"]?.messages).toEqual(["Background color is required"]);
+    expect(result["count"]?.messages).toEqual(["Count must be an integer"]);
+    expect(formatter.format(null)).toEqual({});
+  });
+
+  it("supports Spanish with regional fallback", () => {
+    const formatter = new ErrorFormatter(schema, { locale: "es-CL" });
+    const result = formatter.format(errors);
+    expect(result["color"]?.messages).toEqual(["Background color debe ser un color válido como #FFFFFF"]);
+    expect(result["alignment"]?.messages).toEqual(["Alignment debe ser uno de: Y, X"]);
+  });
+
+  it("registers more locales with fallback to English", () => {
+    ErrorFormatter.register("pt", { required: label => `${label} é obrigatório` });
+    const formatter = new ErrorFormatter(schema, { locale: "pt-BR" });
+    const result = formatter.format(validator.parse({}).errors);
+    expect(result["title"]?.messages).toEqual(["Title é obrigatório"]);
+    expect(formatter.format(errors)["count"]?.messages).toEqual(["Count must be greater than or equal to 1"]);
+    expect(ErrorFormatter.resolve("fr")).toBe(ErrorFormatter.LOCALES["en"]);
+  });
+
+  it("ignores inherited keys of the catalogs", () => {
+    expect(ErrorFormatter.resolve("constructor")).toBe(ErrorFormatter.LOCALES["en"]);
+    expect(ErrorFormatter.resolve("__proto__-CL")).toBe(ErrorFormatter.LOCALES["en"]);
+    const formatter = new ErrorFormatter(schema, { locale: "toString" });
+    expect(formatter.format(validator.parse({}).errors)["title"]?.messages).toEqual(["Title is required"]);
+  });
+});
@@ -0,0 +1,10 @@
+import { Variable as V } from "../../src";
+
+export const schema = V.Object({
+  title: V.String({ description: "Main text", default: "Hello", examples: ["Hello", "World"] }),
+  count: V.Optional(V.Integer({ minimum: 0 })),
+  author: V.Object({ name: V.String(), avatar: V.Optional(V.Image()) }),
+  tags: V.Array(V.Object({ label: V.String() }), { default: [] }),
+});
+
+export const other = V.Object({ name: V.String() });
@@ -0,0 +1,114 @@
+import { Variable as V, FlatAdapter, Static, Validator, formFields } from "../src";
+
+describe("FlatAdapter", () => {
+  const nested = V.Object({
+    title: V.Object({
+      text: V.String({ default: "Hello" }),
+      color: V.ColorHex({ default: "#FFFFFF" }),
+      fontSize: V.Optional(V.Integer()),
+    }),
+    logo: V.Optional(V.Object({ url: V.Image(), width: V.Integer() }, { default: { width: 100 } })),
+    price: V.Price({ currency: true }),
+    count: V.Integer(),
+  });
+
+  it("flattens schemas with camelCase keys", () => {
+    const adapter = new FlatAdapter(nested);
+    expect(Object.keys(adapter.schema.properties)).toEqual([
+      "titleText",
+      "titleColor",
+      "titleFontSize",
+      "logoUrl",
+      "logoWidth",
+      "price",
+      "count",
+    ]);
+    expect(adapter.schema.required).toEqual(["titleText", "titleColor", "price", "count"]);
+    expect(adapter.schema.properties.logoWidth).toMatchObject({ type: "integer", default: 100, title: "Logo width" });
+    expect(adapter.schema.properties.price).toBe(nested.properties.price);
+    expect(formFields(adapter.schema).map(field => field.label)).toEqual([
+      "Title text",
+      "Title color",
+      "Title font size",
+      "Logo url",
+      "Logo width",
+      "Price",
+      "Count",
+    ]);
+  });
+
+  it("supports dot and bracket conventions", () => {
+    expect(Object.keys(new FlatAdapter(nested, { convention: "dot" }).schema.properties)).toContain("title.fontSize");
+    const bracket = new FlatAdapter(nested, { convention: "bracket" });
+    expect(Object.keys(bracket.schema.properties)).toContain("logo[url]");
+    const flat: Static<typeof bracket.schema> = {
+      "title[text]": "Hi",
+      "title[color]": "#000000",
+      price: { amount: 10, currency: "USD" },
+      count: 1,
+    };
+    expect(bracket.unflatten(flat).title.text).toBe("Hi");
+  });
+
+  it("unflattens parsed variables", () => {
+    const adapter = new FlatAdapter(nested);
+    const { data, isValid } = new Validator(adapter.schema).parse({
+      titleText: "Hi",
+      price: { amount: 10, currency: "USD" },
+      count: "2",
+    });
+    expect(isValid).toBe(true);
+    const variables = adapter.unflatten(data);
+    const color: string = variables.title.color;
+    const width: number | undefined = variables.logo && variables.logo.width;
+    expect(color).toBe("#FFFFFF");
+    expect(width).toBe(100);
+    expect(variables).toEqual({
+      title: { text: "Hi", color: "#FFFFFF" },
+      logo: { width: 100 },
+      price: { amount: 10, currency: "USD" },
+      count: 2,
+    });
+    expect(adapter.flatten(variables)).toEqual({
+      titleText: "Hi",
+      titleColor: "#FFFFFF",
+      logoWidth: 100,
+      price: { amount: 10, currency: "USD" },
+      count: 2,
+    });
+    expect(adapter.unflatten({ count: 1 } as any)).toEqual({ title: {}, count: 1 });
+  });
+
+  it("rejects keys flattened to the same one", () => {
+    const colliding = V.Object({ titleColor: V.String(), title: V.Object({ color: V.ColorHex() }) });
+    expect(() => new FlatAdapter(colliding)).toThrow(
+      'Keys "titleColor" and "title.color" are both flattened to "titleColor"',
+    );
+    expect(Object.keys(new FlatAdapter(colliding, { convention: "dot" }).schema.properties)).toEqual([
+      "titleColor",
+      "title.color",
+    ]);
+  });
+
+  it("keeps nullable objects", () => {
+    const adapter = new FlatAdapter(V.Object({ logo: V.Nullable(V.Object({ url: V.Image() })), count: V.Integer() }));
+    expect(Object.keys(adapter.schema.properties)).toEqual(["logo", "count"]);
+    const { data, isValid } = new Validator(adapter.schema).parse({ logo: null, count: 1 });
+    expect(isValid).toBe(true);
+    expect(adapter.unflatten(data)).toEqual({ logo: null, count: 1 });
+  });
+
+  it("updates conditions", () => {
+    const adapter = new FlatAdapter(
+      V.Object({ background: V.Object({ mode: V.String(), color: V.When("mode", "solid", V.ColorHex()) }) }),
+    );
+    expect(adapter.schema.properties.backgroundColor.when).toEqual({
+      key: "backgroundMode",
+      values: ["solid"],
+      required: true,
+    });
+    const validator = new Validator(adapter.schema);
+    expect(validator.parse({ backgroundMode: "solid" }).isValid).toBe(false);
+    expect(validator.parse({ backgroundMode: "image" }).isValid).toBe(true);
+  });
+});
@@ -0,0 +1,137 @@
+import { Variable as V, Validator, ErrorFormatter, FontConstraints, Is, formatFont, parseFont, sample } from "../src";
+
+describe("parseFont", () => {
+  it("parses Google Fonts descriptors", () => {
+    expect(parseFont("Inter")).toEqual({ family: "Inter", weights: [400], styles: ["normal"], fallback: "sans-serif" });
+    expect(parseFont("Inter:700italic,400, 700")).toEqual({
+      family: "Inter",
+      weights: [400, 700],
+      styles: ["normal", "italic"],
+      fallback: "sans-serif",
+    });
+    expect(parseFont("Lora:italic,bold")).toMatchObject({ weights: [400, 700], styles: ["normal", "italic"] });
+    expect(parseFont("Inter:450")).toBeNull();
+    expect(parseFont("Inter:400,")).toBeNull();
+    expect(parseFont(":400")).toBeNull();
+  });
+
+  it("parses objects", () => {
+    expect(parseFont({ family: "Lato", weights: ["300", 900], fallback: "Arial, sans-serif" })).toEqual({
+      family: "Lato",
+      weights: [300, 900],
+      styles: ["normal"],
+      fallback: "Arial, sans-serif",
+    });
+    expect(parseFont({ family: "Lato", styles: ["oblique"] })).toBeNull();
+    expect(parseFont({ weights: [400] })).toBeNull();
+  });
+
+  it("checks allowed weights, styles and families", () => {
+    const options: FontConstraints = { weights: [300, 700], styles: ["italic"], families: true };
+    expect(parseFont("roboto", options)).toEqual({
+      family: "Roboto",
+      weights: [300],
+      styles: ["italic"],
+      fallback: "sans-serif",
+    });
+    expect(parseFont("Roboto:400", options)).toBeNull();
+    expect(parseFont("Roboto:700", options)).toBeNull();
+    expect(parseFont("Roboto:700italic", options)).toMatchObject({ weights: [700], styles: ["italic"] });
+    expect(parseFont("Comic Sans", options)).toBeNull();
+    expect(parseFont("Comic Sans", { families: ["Comic Sans"] })).toMatchObject({ family: "Comic Sans" });
+  });
+
+  it("formats descriptors", () => {
+    expect(formatFont(parseFont("Inter:700italic,400") as any)).toBe("Inter:400,700,400italic,700italic");
+  });
+});
+
+describe("V.Font", () => {
+  const schema = V.Object({
+    body: V.Font({ families: true, default: "inter" }),
+    heading: V.Font({ descriptor: true, weights: [400, 700], fallback: "serif", default: "Lora:700" }),
+    fonts: V.Optional(V.Array(V.Font({ descriptor: true }))),
+  });
+
+  it("keeps plain fonts as strings", () => {
+    const plain = V.Font({ default: "Fira Code" });
+    expect(plain).toMatchObject({ type: "string", contentMediaType: "font/*" });
+    expect(plain).not.toHaveProperty("font");
+    expect(Is.Font(plain)).toBe(true);
+    expect(Is.FontDescriptor(plain)).toBe(false);
+    expect(Is.FontDescriptor(schema.properties.heading)).toBe(true);
+    expect(Is.kindOf(schema.properties.heading)).toBe("font");
+  });
+
+  it("normalizes descriptors with Validator", () => {
+    const validator = new Validator(schema);
+    const { data, isValid } = validator.parse({
+      heading: { family: "Lora", weights: [700, 400], styles: ["italic"] },
+      fonts: ["Inter:300", { family: "Roboto" }],
+    });
+    expect(isValid).toBe(true);
+    const heading: { family: string; weights: number[]; styles: ("normal" | "italic")[]; fallback: string } =
+      data.heading;
+    expect(heading).toEqual({ family: "Lora", weights: [400, 700], styles: ["italic"], fallback: "serif" });
+    expect(data.body).toBe("Inter");
+    expect(data.fonts).toEqual([
+      { family: "Inter", weights: [300], styles: ["normal"], fallback: "sans-serif" },
+      { family: "Roboto", weights: [400], styles: ["normal"], fallback: "sans-serif" },
+    ]);
+    expect(validator.parse({}).data.heading).toEqual({
+      family: "Lora",
+      weights: [700],
+      styles: ["normal"],
+      fallback: "serif",
+    });
+  });
+
+  it("reports invalid fonts", () => {
+    const validator = new Validator(schema);
+    const { isValid, errors } = validator.parse({ body: "Comic Sans", heading: "Lora:300" });
+    expect(isValid).toBe(false);
+    expect(new ErrorFormatter(schema).format(errors)).toEqual({
+      body: { key: "body", label: "Body", messages: ["Body must be a valid font like Inter:400,700italic"] },
+      heading: {
+        key: "heading",
+        label: "Heading",
+        messages: ["Heading must be a valid font like Inter:400,700italic"],
+      },
+    });
+  });
+
+  it("keeps weights and styles of plain fonts", () => {
+    const plain = new Validator(V.Object({ body: V.Font({ families: true, weights: [400, 700] }) }));
+    expect(plain.parse({ body: "roboto:700italic,400" }).data.body).toBe("Roboto:700italic,400");
+    expect(plain.parse({ body: "roboto" }).data.body).toBe("Roboto");
+    expect(plain.parse({ body: "Roboto:300" }).isValid).toBe(false);
+    expect(plain.parse({ body: "Roboto:heavy" }).isValid).toBe(false);
+  });
+
+  it("accepts null with V.Nullable", () => {
+    const nullable = V.Object({
+      body: V.Nullable(V.Font({ families: true })),
+      heading: V.Nullable(V.Font({ descriptor: true })),
+    });
+    const validator = new Validator(nullable);
+    expect(validator.parse({ body: null, heading: null })).toMatchObject({
+      isValid: true,
+      data: { body: null, heading: null },
+    });
+    expect(validator.parse({ body: "roboto", heading: "Inter:700" }).data).toEqual({
+      body: "Roboto",
+      heading: { family: "Inter", weights: [700], styles: ["normal"], fallback: "sans-serif" },
+    });
+    expect(validator.validate({ body: 400, heading: null })).toBe(false);
+  });
+
+  it("creates samples", () => {
+    const fonts = V.Object({ heading: V.Font({ descriptor: true, families: ["Lato"] }) });
+    expect(sample(fonts).heading).toEqual({
+      family: "Lato",
+      weights: [400],
+      styles: ["normal"],
+      fallback: "sans-serif",
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { Variable as V, formFields, humanize } from "../src";
+
+describe("formFields", () => {
+  enum Alignment {
+    Y = "flex flex-col justify-center",
+    X = "flex flex-row justify-center",
+  }
+
+  it("describes every property in order", () => {
+    const schema = V.Object({
+      title: V.String({ title: "Heading", description: "Main text", default: "Hello", maxLength: 40 }),
+      titleColor: V.Optional(V.ColorHex({ examples: ["#000000"] })),
+      count: V.Nullable(V.Integer({ minimum: 1, maximum: 10 })),
+      alignment: V.EnumKeys(Alignment, { default: "X" }),
+      values: V.Optional(V.Enum(Alignment)),
+    });
+    expect(formFields(schema)).toEqual([
+      {
+        key: "title",
+        label: "Heading",
+        description: "Main text",
+        kind: "text",
+        required: true,
+        nullable: false,
+        default: "Hello",
+        examples: [],
+        constraints: { maxLength: 40 },
+      },
+      {
+        key: "titleColor",
+        label: "Title color",
+        kind: "color",
+        required: false,
+        nullable: false,
+        examples: ["#000000"],
+        constraints: {},
+      },
+      {
+        key: "count",
+        label: "Count",
+        kind: "integer",
+        required: true,
+        nullable: true,
+        examples: [],
+        constraints: { minimum: 1, maximum: 10 },
+      },
+      {
+        key: "alignment",
+        label: "Alignment",
+        kind: "enum-keys",
+        required: true,
+        nullable: false,
+        default: "X",
+        examples: [],
+        options: [
+          { value: "Y", label: "Y" },
+          { value: "X", label: "X" },
+        ],
+        constraints: {},
+      },
+      expect.objectContaining({
+        key: "values",
+        kind: "enum",
+        required: false,
+        options: [
+          { value: Alignment.Y, label: Alignment.Y },
+          { value: Alignment.X, label: Alignment.X },
+        ],
+      }),
+    ]);
+  });
+
+  it("describes nested objects", () => {
+    const schema = V.Object({
+      title: V.Object({ text: V.String(), font: V.Optional(V.Font()) }),
+    });
+    const [field] = formFields(schema);
+    expect(field).toHaveProperty("kind", "object");
+    expect(field?.fields).toEqual([
+      expect.objectContaining({ key: "text", kind: "text", required: true }),
+      expect.objectContaining({ key: "font", kind: "font", required: false }),
+    ]);
+  });
+
+  it("humanizes keys", () => {
+    expect(humanize("titleColor")).toBe("Title color");
+    expect(humanize("background_image")).toBe("Background image");
+    expect(humanize("font-size")).toBe("Font size");
+  });
+});
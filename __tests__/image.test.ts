@@ -0,0 +1,185 @@
+import { mkdirSync, mkdtempSync, promises, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import {
+  Variable as V,
+  Validator,
+  ErrorFormatter,
+  createFileLoader,
+  inspectImage,
+  inspectImages,
+  readImageInfo,
+} from "../src";
+
+function bytes(...parts: (number[] | string)[]): Uint8Array {
+  return Uint8Array.from(
+    parts.flatMap(part => (typeof part === "string" ? Array.from(part).map(char => char.charCodeAt(0)) : part)),
+  );
+}
+
+function png(width: number, height: number): Uint8Array {
+  const u32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+  return bytes([0x89], "PNG\r\n\x1a\n", u32(13), "IHDR", u32(width), u32(height), [8, 6, 0, 0, 0]);
+}
+
+function jpeg(width: number, height: number): Uint8Array {
+  const u16 = (value: number) => [(value >> 8) & 0xff, value & 0xff];
+  // SOI, APP0 (JFIF) and SOF0
+  return bytes(
+    [0xff, 0xd8, 0xff, 0xe0],
+    u16(16),
+    "JFIF\0",
+    Array(9).fill(0),
+    [0xff, 0xc0],
+    u16(17),
+    [8],
+    u16(height),
+    u16(width),
+    [3],
+    Array(9).fill(0),
+  );
+}
+
+function gif(width: number, height: number): Uint8Array {
+  return bytes("GIF89a", [width & 0xff, width >> 8, height & 0xff, height >> 8, 0, 0, 0]);
+}
+
+function webp(width: number, height: number): Uint8Array {
+  const u24 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+  return bytes("RIFF", [0, 0, 0, 0], "WEBP", "VP8X", [10, 0, 0, 0], [0, 0, 0, 0], u24(width - 1), u24(height - 1));
+}
+
+function svg(text: string): Uint8Array {
+  return bytes(text);
+}
+
+describe("readImageInfo", () => {
+  it("reads dimensions from headers", () => {
+    expect(readImageInfo(png(1200, 630))).toEqual({ mimeType: "image/png", width: 1200, height: 630 });
+    expect(readImageInfo(jpeg(800, 600))).toEqual({ mimeType: "image/jpeg", width: 800, height: 600 });
+    expect(readImageInfo(gif(64, 32))).toEqual({ mimeType: "image/gif", width: 64, height: 32 });
+    expect(readImageInfo(webp(1920, 1080))).toEqual({ mimeType: "image/webp", width: 1920, height: 1080 });
+  });
+
+  it("reads SVG size or viewBox", () => {
+    const sized = svg(`<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg" width="300px" height="100">`);
+    expect(readImageInfo(sized)).toEqual({ mimeType: "image/svg+xml", width: 300, height: 100 });
+    const box = svg(`<svg viewBox="0 0 24 12" width="100%"><path /></svg>`);
+    expect(readImageInfo(box)).toEqual({ mimeType: "image/svg+xml", width: 24, height: 12 });
+    expect(readImageInfo(svg("hello"))).toBeNull();
+    const late = svg(`<!-- ${"x".repeat(20000)} --><svg width="10" height="20"></svg>`);
+    expect(readImageInfo(late)).toEqual({ mimeType: "image/svg+xml", width: 10, height: 20 });
+  });
+});
+
+describe("V.Image constraints", () => {
+  const schema = V.Object({
+    logo: V.Image({ mimeTypes: ["image/png", "image/svg+xml"], minWidth: 200 }),
+    background: V.Optional(V.Image({ extensions: ["jpg", "webp"], minWidth: 1200, aspectRatio: 1200 / 630 })),
+    gallery: V.Optional(V.Array(V.Image({ minHeight: 100 }))),
+  });
+
+  it("checks extensions of URLs with Validator", () => {
+    const validator = new Validator(schema);
+    expect(validator.validate({ logo: "https://flyyer.io/logo.png?v=1" })).toBe(true);
+    expect(validator.validate({ logo: "https://flyyer.io/logo" })).toBe(true);
+    expect(validator.validate({ logo: "/logo.JPG" })).toBe(false);
+    expect(validator.validate({ logo: "/logo.svg", background: "/bg.jpg" })).toBe(true);
+    const { errors } = validator.parse({ logo: "/logo.svg", background: "/bg.png" });
+    expect(new ErrorFormatter(schema).format(errors)).toEqual({
+      background: {
+        key: "background",
+        label: "Background",
+        messages: ["Background must be an image of type: jpg, webp"],
+      },
+    });
+  });
+
+  it("inspects an image", async () => {
+    const small = await inspectImage(schema.properties.logo, png(120, 120));
+    expect(small.info).toEqual({ mimeType: "image/png", width: 120, height: 120 });
+    expect(small.isValid).toBe(false);
+    expect(small.errors).toEqual([
+      {
+        keyword: "minWidth",
+        instancePath: "",
+        schemaPath: "#/minWidth",
+        params: { limit: 200, width: 120 },
+        message: "must be at least 200px wide",
+      },
+    ]);
+    expect((await inspectImage(schema.properties.logo, png(400, 400))).isValid).toBe(true);
+    const raster = await inspectImage(schema.properties.logo, gif(400, 400));
+    expect(raster.errors.map(error => error.keyword)).toEqual(["mimeTypes"]);
+    const unknown = await inspectImage(schema.properties.logo, bytes("not an image"));
+    expect(unknown.info).toBeNull();
+    expect(unknown.errors.map(error => error.keyword)).toEqual(["image"]);
+  });
+
+  it("inspects every image of the variables with a loader", async () => {
+    const files: { [url: string]: Uint8Array } = {
+      "https://cdn.flyyer.io/logo.svg": svg(`<svg viewBox="0 0 400 100"></svg>`),
+      "https://cdn.flyyer.io/bg": jpeg(1200, 1200),
+      "https://cdn.flyyer.io/a.png": png(100, 100),
+      "https://cdn.flyyer.io/b.png": png(100, 50),
+    };
+    const loader = async (url: string) => {
+      const file = files[url];
+      if (!file) throw new Error("Not found");
+      return file;
+    };
+    const variables = {
+      logo: "https://cdn.flyyer.io/logo.svg",
+      background: "https://cdn.flyyer.io/bg",
+      gallery: ["https://cdn.flyyer.io/a.png", "https://cdn.flyyer.io/b.png", "https://cdn.flyyer.io/c.png"],
+    };
+    const { isValid, errors } = await inspectImages(schema, variables, { loader });
+    expect(isValid).toBe(false);
+    expect(errors.map(error => [error.instancePath, error.keyword])).toEqual([
+      ["/background", "aspectRatio"],
+      ["/gallery/1", "minHeight"],
+      ["/gallery/2", "image"],
+    ]);
+    expect(new ErrorFormatter(schema, { locale: "es" }).format(errors)).toEqual({
+      background: {
+        key: "background",
+        label: "Background",
+        messages: ["Background debe tener una relación de aspecto de 1.9"],
+      },
+      gallery: {
+        key: "gallery",
+        label: "Gallery",
+        messages: ["Gallery debe tener al menos 100px de alto", "Gallery debe ser una URL de imagen válida"],
+      },
+    });
+  });
+
+  it("reads local files only with a loader inside its root", async () => {
+    const directory = mkdtempSync(join(tmpdir(), "flyyer-variables-"));
+    mkdirSync(join(directory, "public"));
+    writeFileSync(join(directory, "public", "logo.png"), png(300, 300));
+    writeFileSync(join(directory, "secret.png"), png(300, 300));
+    const loader = createFileLoader(join(directory, "public"), promises.readFile);
+
+    const { info, isValid } = await inspectImage(schema.properties.logo, "/logo.png", { loader });
+    expect(info).toEqual({ mimeType: "image/png", width: 300, height: 300 });
+    expect(isValid).toBe(true);
+    expect((await inspectImage(schema.properties.logo, "./logo.png?v=1", { loader })).isValid).toBe(true);
+
+    const error = async (source: string, options = { loader }) =>
+      (await inspectImage(schema.properties.logo, source, options)).errors[0];
+    expect(await error(join(directory, "public", "logo.png"), { loader: undefined as any })).toMatchObject({
+      keyword: "image",
+      message: "could not be loaded",
+      params: { error: "Missing loader" },
+    });
+    expect(await error("../secret.png")).toMatchObject({ params: { error: "Path outside of the root directory" } });
+    expect(await error("%2e%2e/secret.png")).toMatchObject({ params: { error: "Path outside of the root directory" } });
+    expect(await error("https://flyyer.io/logo.png")).toMatchObject({
+      params: { error: "Only local files can be loaded" },
+    });
+    expect(await error("file:///etc/passwd")).toMatchObject({ params: { error: "Only local files can be loaded" } });
+    expect(await error("missing.png")).toMatchObject({ params: { error: "File could not be read" } });
+  });
+});
@@ -248,6 +248,218 @@ describe("Variable.DateTime, Variable.Date, Variable.Time", () => {
   });
 });
 
+describe("Variable.Currency", () => {
+  it("produces expected string property", () => {
+    const schema = V.Object({
+      currency: V.Currency({ default: "USD" }),
+      title: V.String(),
+    });
+    expect(schema.properties.currency.format).toEqual("currency");
+    expect(Is.Currency(schema.properties.currency)).toEqual(true);
+    expect(Is.Currency(schema.properties.title)).toEqual(false);
+
+    const validator = new Validator(schema);
+    expect(validator.parse({ title: "", currency: "CLP" }).isValid).toBe(true);
+    expect(validator.parse({ title: "" }).data.currency).toBe("USD");
+    expect(validator.parse({ title: "", currency: "usd" }).isValid).toBe(false);
+    expect(validator.parse({ title: "", currency: "ABC" }).isValid).toBe(false);
+  });
+});
+
+describe("Variable.Price", () => {
+  it("produces expected number property and coerces numeric strings", () => {
+    const schema = V.Object({
+      price: V.Price({ minimum: 0, examples: [59.99] }),
+      count: V.Number(),
+    });
+    expect(schema.properties.price).toMatchObject({ type: "number", format: "price", minimum: 0 });
+    expect(Is.Price(schema.properties.price)).toEqual(true);
+    expect(Is.Price(schema.properties.count)).toEqual(false);
+
+    type Variables = Static<typeof schema>;
+    const validator = new Validator(schema);
+    const validated = validator.parse({ price: "59.99", count: 1 });
+    expect(validated.isValid).toBe(true);
+    const price: Variables["price"] = validated.data.price;
+    expect(price).toBe(59.99);
+    expect(validator.parse({ price: "-1", count: 1 }).isValid).toBe(false);
+    expect(validator.parse({ price: "free", count: 1 }).isValid).toBe(false);
+  });
+
+  it("supports amount and currency object mode", () => {
+    const schema = V.Object({
+      price: V.Price({ currency: { default: "EUR" }, minimum: 0, description: "Product price" }),
+    });
+    expect(Is.Price(schema.properties.price)).toEqual(true);
+    expect(Is.Currency(schema.properties.price.properties.currency)).toEqual(true);
+    expect(schema.properties.price).toMatchObject({
+      type: "object",
+      format: "price",
+      description: "Product price",
+      required: ["amount", "currency"],
+      properties: { amount: { type: "number", minimum: 0 }, currency: { default: "EUR" } },
+    });
+    expect(schema.properties.price).not.toHaveProperty("minimum");
+    expect(schema.properties.price).not.toHaveProperty("currency");
+
+    type Variables = Static<typeof schema>;
+    const validator = new Validator(schema);
+    const validated = validator.parse({ price: { amount: "10.5" } });
+    expect(validated.isValid).toBe(true);
+    const price: Variables["price"] = validated.data.price;
+    expect(price).toEqual({ amount: 10.5, currency: "EUR" });
+    expect(validator.parse({ price: { amount: 1, currency: "XYZ" } }).isValid).toBe(false);
+  });
+});
+
+describe("Variable.Phone", () => {
+  it("validates E.164 phone numbers", () => {
+    const schema = V.Object({
+      phone: V.Phone(),
+      title: V.String(),
+    });
+    expect(schema.properties.phone.format).toEqual("phone");
+    expect(Is.Phone(schema.properties.phone)).toEqual(true);
+    expect(Is.Phone(schema.properties.title)).toEqual(false);
+
+    const validator = new Validator(schema);
+    expect(validator.parse({ title: "", phone: "+56912345678" }).isValid).toBe(true);
+    expect(validator.parse({ title: "", phone: "+56 9 1234 5678" }).isValid).toBe(false);
+    expect(validator.parse({ title: "", phone: "912345678" }).isValid).toBe(false);
+  });
+
+  it("normalizes formatted phone numbers", () => {
+    const schema = V.Object({
+      phone: V.Phone({ normalize: true }),
+      phones: V.Optional(V.Array(V.Phone({ normalize: true }))),
+    });
+    const validator = new Validator(schema);
+    expect(validator.parse({ phone: "+56 9 1234 5678" })).toMatchObject({
+      isValid: true,
+      data: { phone: "+56912345678" },
+    });
+    expect(validator.parse({ phone: "0056 (9) 1234-5678", phones: ["+1 415.555.2671"] }).data).toEqual({
+      phone: "+56912345678",
+      phones: ["+14155552671"],
+    });
+    const invalid = validator.parse({ phone: "(9) 1234 5678" });
+    expect(invalid.isValid).toBe(false);
+    expect(invalid.data.phone).toBe("(9) 1234 5678");
+  });
+});
+
+describe("Variable.Address", () => {
+  it("produces expected object property", () => {
+    const schema = V.Object({
+      address: V.Address(),
+    });
+    expect(schema.properties.address).toMatchObject({ type: "object", format: "address" });
+    expect(schema.properties.address.required).toEqual(["street", "city", "country"]);
+    expect(Is.Address(schema.properties.address)).toEqual(true);
+    expect(Is.Country(schema.properties.address.properties.country)).toEqual(true);
+
+    const validator = new Validator(schema);
+    const address = { street: "Av. Providencia 1234", city: "Santiago", region: "RM", country: "CL" };
+    expect(validator.parse({ address })).toMatchObject({ isValid: true, data: { address } });
+    expect(validator.parse({ address: { ...address, country: "Chile" } }).isValid).toBe(false);
+    expect(validator.parse({ address: { street: "Av. Providencia 1234", country: "CL" } }).isValid).toBe(false);
+  });
+
+  it("supports flat keys", () => {
+    const schema = V.Object({
+      title: V.String(),
+      ...V.AddressFields(),
+    });
+    expect(Object.keys(schema.properties)).toEqual(["title", "street", "city", "region", "postalCode", "country"]);
+    expect(schema.required).toEqual(["title", "street", "city", "country"]);
+
+    const validator = new Validator(schema);
+    const variables = { title: "", street: "Main St 1", city: "Springfield", postalCode: "12345", country: "US" };
+    expect(validator.parse(variables)).toMatchObject({ isValid: true, data: variables });
+  });
+});
+
+describe("Is", () => {
+  enum Alignment {
+    Y = "flex flex-col justify-center",
+    X = "flex flex-row justify-center",
+  }
+  const schema = V.Object({
+    keys: V.EnumKeys(Alignment),
+    values: V.Enum(Alignment),
+    price: V.Price(),
+    currency: V.Currency(),
+    country: V.Country(),
+    phone: V.Phone(),
+    address: V.Address(),
+    image: V.Image(),
+    font: V.Font(),
+    url: V.URL(),
+    color: V.Nullable(V.ColorHex()),
+    email: V.Email(),
+    datetime: V.DateTime(),
+    date: V.Date(),
+    time: V.Time(),
+    integer: V.Optional(V.Integer()),
+    number: V.Number(),
+    boolean: V.Boolean(),
+    text: V.String(),
+    object: V.Object({}),
+    array: V.Array(V.String()),
+    unknown: V.Unknown(),
+  });
+
+  it("resolves one widget kind per property", () => {
+    const kinds = Object.entries(schema.properties).map(([key, property]) => [key, Is.kindOf(property)]);
+    expect(kinds).toEqual([
+      ["keys", "enum-keys"],
+      ["values", "enum"],
+      ["price", "price"],
+      ["currency", "currency"],
+      ["country", "country"],
+      ["phone", "phone"],
+      ["address", "address"],
+      ["image", "image"],
+      ["font", "font"],
+      ["url", "url"],
+      ["color", "color"],
+      ["email", "email"],
+      ["datetime", "datetime"],
+      ["date", "date"],
+      ["time", "time"],
+      ["integer", "integer"],
+      ["number", "number"],
+      ["boolean", "boolean"],
+      ["text", "text"],
+      ["object", "object"],
+      ["array", "array"],
+      ["unknown", "unknown"],
+    ]);
+  });
+
+  it("tells apart Enum and EnumKeys", () => {
+    expect(Is.Enum(schema.properties.keys)).toEqual(true);
+    expect(Is.EnumKeys(schema.properties.keys)).toEqual(true);
+    expect(Is.Enum(schema.properties.values)).toEqual(true);
+    expect(Is.EnumKeys(schema.properties.values)).toEqual(false);
+  });
+
+  it("detects modifiers", () => {
+    expect(Is.Optional(schema.properties.integer)).toEqual(true);
+    expect(Is.Optional(schema.properties.number)).toEqual(false);
+    expect(Is.Optional(V.Nullable(V.Optional(V.String())))).toEqual(true);
+    expect(Is.Nullable(schema.properties.color)).toEqual(true);
+    expect(Is.ColorHex(schema.properties.color)).toEqual(true);
+  });
+
+  it("throws on missing argument", () => {
+    expect(() => Is.Nullable(undefined)).toThrow(TypeError);
+    expect(() => Is.Optional(null)).toThrow(TypeError);
+    expect(() => Is.ColorHex(undefined)).toThrow(TypeError);
+    expect(() => Is.kindOf(undefined)).toThrow(TypeError);
+  });
+});
+
 describe("Schema and typing", () => {
   it("produces JSON Schema output", () => {
     const flyyerTypes = V.Object({
@@ -0,0 +1,81 @@
+import { Variable as V, lint } from "../src";
+
+describe("lint", () => {
+  it("returns no diagnostics for a dashboard friendly schema", () => {
+    enum Alignment {
+      Y = "flex flex-col justify-center",
+      X = "flex flex-row justify-center",
+    }
+    const schema = V.Object({
+      title: V.String({ default: "Hello", examples: ["Hello", "World"] }),
+      count: V.Optional(V.Integer({ default: 2, minimum: 0 })),
+      color: V.ColorHex({ default: "#FFFFFF" }),
+      image: V.Nullable(V.Image({ examples: ["https://flyyer.io/logo.png"] })),
+      alignment: V.EnumKeys(Alignment, { default: "X" }),
+      price: V.Price({ currency: true, examples: [{ amount: 10, currency: "USD" }] }),
+      font: V.Font({ descriptor: true, default: "Inter:700" }),
+      heading: V.Nullable(V.Font({ descriptor: true })),
+    });
+    expect(lint(schema)).toEqual([]);
+  });
+
+  it("requires an object schema", () => {
+    expect(lint(V.String())).toEqual([expect.objectContaining({ path: "", code: "not-object", severity: "error" })]);
+  });
+
+  it("warns about nesting, arrays and unions once per variable", () => {
+    const schema = V.Object({
+      title: V.Object({ text: V.String(), nested: V.Object({ deep: V.String() }) }),
+      tags: V.Array(V.String()),
+      value: V.Union([V.String(), V.Number()]),
+    });
+    expect(lint(schema)).toEqual([
+      expect.objectContaining({ path: "/title", code: "unsupported-nesting", severity: "warning" }),
+      expect.objectContaining({ path: "/tags", code: "unsupported-nesting", severity: "warning" }),
+      expect.objectContaining({ path: "/value", code: "unsupported-union", severity: "warning" }),
+    ]);
+  });
+
+  it("escapes paths as JSON Pointers", () => {
+    const schema = V.Object({ "a/b": V.Object({ "c~d": V.Integer({ default: "one" as any }) }) });
+    expect(lint(schema).map(diagnostic => diagnostic.path)).toEqual(["/a~1b", "/a~1b/c~0d"]);
+  });
+
+  it("reports invalid examples, defaults, enums and formats", () => {
+    enum Mode {
+      Light = "light",
+      Dark = "dark",
+    }
+    const schema = V.Object({
+      title: V.String({ examples: "Hello" }),
+      color: V.ColorHex({ default: "white", examples: ["#000", "black"] }),
+      count: V.Integer({ default: "many" }),
+      mode: V.EnumKeys(Mode, { default: "light" }),
+      custom: V.String({ format: "not-a-format" }),
+    });
+    const diagnostics = lint(schema);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ path: "/title", code: "examples-not-array", severity: "error" }),
+      expect.objectContaining({
+        path: "/color",
+        code: "invalid-example",
+        message: 'examples[1] "black" is not a valid value',
+      }),
+      expect.objectContaining({ path: "/color", code: "invalid-default" }),
+      expect.objectContaining({ path: "/count", code: "invalid-default" }),
+      expect.objectContaining({
+        path: "/mode",
+        code: "enum-default",
+        message: 'Default "light" is not one of: "Light", "Dark"',
+      }),
+      expect.objectContaining({ path: "/custom", code: "unknown-format" }),
+    ]);
+  });
+
+  it("accepts coercible values the same way Validator does", () => {
+    const schema = V.Object({
+      price: V.Number({ examples: ["59.99"] }),
+    });
+    expect(lint(schema)).toEqual([]);
+  });
+});
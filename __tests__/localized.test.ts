@@ -0,0 +1,63 @@
+import { Variable as V, Static, Validator, Is, lint, resolveLocale } from "../src";
+
+describe("Variable.LocalizedString", () => {
+  const schema = V.Object({
+    title: V.LocalizedString({ defaultLocale: "en", maxLength: 10 }),
+    subtitle: V.Optional(V.LocalizedString()),
+    items: V.Array(V.Object({ label: V.LocalizedString() })),
+  });
+  const validator = new Validator(schema);
+
+  it("is detected as a localized string", () => {
+    expect(Is.LocalizedString(schema.properties.title)).toBe(true);
+    expect(Is.LocalizedString(V.String())).toBe(false);
+    expect(Is.kindOf(schema.properties.title)).toBe("localized");
+    expect(lint(V.Object({ title: V.LocalizedString({ examples: [{ en: "Hi" }, "Hello"] }) }))).toEqual([]);
+  });
+
+  it("accepts plain strings and locale maps", () => {
+    expect(validator.parse({ title: "Hello", items: [] }).isValid).toBe(true);
+    expect(validator.parse({ title: { en: "Hello", "es-CL": "Hola" }, items: [] }).isValid).toBe(true);
+    expect(validator.parse({ title: { en: "Hello world!!" }, items: [] }).isValid).toBe(false);
+    expect(validator.parse({ title: { "not a locale": "Hello" }, items: [] }).isValid).toBe(false);
+    expect(validator.parse({ title: {}, items: [] }).isValid).toBe(false);
+  });
+
+  it("resolves to a single string with fallbacks", () => {
+    type Variables = Static<typeof schema>;
+    const variables = {
+      title: { en: "Hello", es: "Hola", "pt-BR": "Olá" },
+      subtitle: "Plain",
+      items: [{ label: { fr: "Bonjour", de: "Hallo" } }],
+    };
+    const { data, isValid } = validator.parse(variables, { locale: "es-CL" });
+    expect(isValid).toBe(true);
+    const title: Variables["title"] = data.title;
+    expect(title).toBe("Hola");
+    expect(data.subtitle).toBe("Plain");
+    expect(data.items[0]?.label).toBe("Bonjour");
+    expect(validator.parse(variables, { locale: "pt-br" }).data.title).toBe("Olá");
+    expect(validator.parse(variables, { locale: "fr" }).data.title).toBe("Hello");
+    expect(validator.parse(variables).data.title).toBe("Hello");
+  });
+
+  it("resolves maps when narrowing with validate", () => {
+    const variables: unknown = { title: { es: "Hola", en: "Hello" }, items: [{ label: { fr: "Bonjour" } }] };
+    expect(validator.validate(variables)).toBe(true);
+    expect(variables).toEqual({ title: "Hello", items: [{ label: "Bonjour" }] });
+  });
+
+  it("accepts null with V.Nullable", () => {
+    const nullable = new Validator(V.Object({ title: V.Nullable(V.LocalizedString()) }));
+    expect(nullable.parse({ title: null })).toMatchObject({ isValid: true, data: { title: null } });
+    expect(nullable.parse({ title: { en: "Hello" } }).data.title).toBe("Hello");
+    expect(nullable.validate({ title: {} })).toBe(false);
+  });
+
+  it("resolves maps", () => {
+    expect(resolveLocale({ en: "Hello", es: "Hola" }, "es-CL")).toBe("Hola");
+    expect(resolveLocale({ es: "Hola", en: "Hello" }, "fr", "en")).toBe("Hello");
+    expect(resolveLocale({ es: "Hola", en: "Hello" }, "fr")).toBe("Hola");
+    expect(resolveLocale({})).toBeUndefined();
+  });
+});
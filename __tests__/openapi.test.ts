@@ -0,0 +1,129 @@
+import { Variable as V, toOpenAPI, toOpenAPIParameters, toOpenAPISchema } from "../src";
+
+describe("toOpenAPISchema", () => {
+  it("converts custom keywords and formats", () => {
+    expect(toOpenAPISchema(V.Nullable(V.ColorHex({ default: "#FFFFFF" })))).toEqual({
+      type: ["string", "null"],
+      format: "color-hex",
+      pattern: "^#?([0-9A-Fa-f]{3}|[0-9A-Fa-f]{4}|[0-9A-Fa-f]{6}|[0-9A-Fa-f]{8})$",
+      default: "#FFFFFF",
+    });
+    expect(toOpenAPISchema(V.Image({ mimeTypes: ["image/png"] }))).toEqual({
+      type: "string",
+      format: "uri-reference",
+      contentMediaType: "image/png",
+    });
+    expect(toOpenAPISchema(V.Image({ mimeTypes: ["image/png"], extensions: ["svg", "PNG"] }))).toEqual({
+      type: "string",
+      format: "uri-reference",
+      anyOf: [{ contentMediaType: "image/png" }, { contentMediaType: "image/svg+xml" }],
+    });
+    expect(toOpenAPISchema(V.Image({ extensions: ["heic"] }))).toMatchObject({ contentMediaType: "image/*" });
+    expect(toOpenAPISchema(V.Phone())).toMatchObject({ pattern: "^\\+[1-9]\\d{1,14}$" });
+    expect(toOpenAPISchema(V.Currency())).toMatchObject({ type: "string", enum: expect.arrayContaining(["USD"]) });
+  });
+
+  it("keeps property names", () => {
+    const schema = V.Object({ kind: V.Optional(V.String()), nullable: V.Boolean() });
+    expect(toOpenAPISchema(schema)).toEqual({
+      type: "object",
+      properties: { kind: { type: "string" }, nullable: { type: "boolean" } },
+      required: ["nullable"],
+    });
+  });
+});
+
+describe("toOpenAPIParameters", () => {
+  enum Alignment {
+    Y = "flex flex-col justify-center",
+    X = "flex flex-row justify-center",
+  }
+  const schema = V.Object({
+    title: V.Object({
+      text: V.String({ description: "Main text", examples: ["Hello"] }),
+      color: V.ColorHex({ default: "#FFFFFF" }),
+    }),
+    alignment: V.EnumKeys(Alignment, { default: "X" }),
+    font: V.Optional(V.Font()),
+    count: V.Nullable(V.Integer()),
+    tags: V.Array(V.String()),
+    items: V.Optional(V.Array(V.Object({ name: V.String() }))),
+    greeting: V.Optional(V.LocalizedString({ default: "Hello" })),
+  });
+
+  it("flattens keys with the bracket notation", () => {
+    const parameters = toOpenAPIParameters(schema);
+    expect(parameters.map(parameter => [parameter.name, parameter.required, parameter.style])).toEqual([
+      ["title[text]", true, undefined],
+      ["title[color]", false, undefined],
+      ["alignment", false, undefined],
+      ["font", false, undefined],
+      ["count", true, undefined],
+      ["tags[]", true, "form"],
+      ["items", false, "deepObject"],
+      ["greeting", false, "deepObject"],
+    ]);
+    expect(parameters[0]).toEqual({
+      name: "title[text]",
+      in: "query",
+      description: "Main text",
+      required: true,
+      schema: { type: "string", description: "Main text", examples: ["Hello"] },
+      example: "Hello",
+    });
+    expect(parameters[2]?.schema).toEqual({ type: "string", enum: ["Y", "X"], default: "X" });
+    expect(parameters[3]?.schema).toEqual({ type: "string", contentMediaType: "font/*" });
+    expect(parameters[4]?.schema).toEqual({ type: ["integer", "null"] });
+  });
+
+  it("makes properties of nullable objects optional", () => {
+    const logo = V.Object({ logo: V.Nullable(V.Object({ url: V.Image(), width: V.Integer() })) });
+    expect(toOpenAPIParameters(logo).map(parameter => [parameter.name, parameter.required])).toEqual([
+      ["logo[url]", false],
+      ["logo[width]", false],
+    ]);
+  });
+
+  it("creates OpenAPI documents", () => {
+    const document = toOpenAPI(V.Object({ tags: V.Array(V.String()), title: V.Object({ text: V.String() }) }), {
+      title: "Main",
+      path: "/v2/{tenant}/{deck}/main",
+    });
+    expect(document).toEqual({
+      openapi: "3.1.0",
+      info: { title: "Main", version: "1.0.0" },
+      components: {
+        parameters: {
+          tags: {
+            name: "tags[]",
+            in: "query",
+            required: true,
+            style: "form",
+            explode: true,
+            schema: { type: "array", items: { type: "string" } },
+          },
+          "title.text": { name: "title[text]", in: "query", required: true, schema: { type: "string" } },
+        },
+        schemas: {
+          Variables: {
+            type: "object",
+            properties: {
+              tags: { type: "array", items: { type: "string" } },
+              title: { type: "object", properties: { text: { type: "string" } }, required: ["text"] },
+            },
+            required: ["tags", "title"],
+          },
+        },
+      },
+      paths: {
+        "/v2/{tenant}/{deck}/main": {
+          get: {
+            summary: "Main",
+            parameters: [{ $ref: "#/components/parameters/tags" }, { $ref: "#/components/parameters/title.text" }],
+            responses: { "200": { description: "Rendered image" } },
+          },
+        },
+      },
+    });
+  });
+});
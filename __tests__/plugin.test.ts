@@ -0,0 +1,138 @@
+import {
+  Variable,
+  ErrorFormatter,
+  Is,
+  Static,
+  Validator,
+  ValidatorRegistry,
+  formFields,
+  lint,
+  plugins,
+  unregisterPlugin,
+} from "../src";
+import { compile } from "../src/compile";
+
+describe("V.use", () => {
+  const registry = new ValidatorRegistry();
+  const setup = () => {
+    const V = Variable.use({
+      name: "Slug",
+      format: "slug",
+      validate: /^[a-z0-9]+(-[a-z0-9]+)*$/,
+      coerce: value => value.trim().toLowerCase(),
+    }).use({
+      name: "Hashtag",
+      format: "hashtag",
+      validate: value => value.startsWith("#") && !/\s/.test(value),
+      build: (options: { default?: string; multiple?: boolean }) => {
+        const item = Variable.String<"hashtag">({ format: "hashtag" });
+        return options.multiple ? Variable.Array(item, { default: [] }) : { ...item, default: options.default };
+      },
+      is: variable => variable["format"] === "hashtag" || (variable["items"] || {})["format"] === "hashtag",
+      kind: "array",
+    });
+    const schema = V.Object({
+      slug: V.Slug({ default: "hello-world" }),
+      tags: V.Optional(V.Hashtag({ multiple: true })),
+    });
+    return { V, schema };
+  };
+
+  afterEach(() => plugins().forEach(plugin => unregisterPlugin(plugin.format)));
+
+  it("adds builder methods", () => {
+    const { schema } = setup();
+    expect(schema.properties.slug).toMatchObject({
+      type: "string",
+      format: "slug",
+      normalize: "slug",
+      default: "hello-world",
+    });
+    expect(schema.properties.tags).toMatchObject({ type: "array", items: { format: "hashtag" } });
+    expect(plugins().map(plugin => plugin.name)).toEqual(["Slug", "Hashtag"]);
+    expect(() => Variable.use({ name: "String", format: "text", validate: /./ })).toThrow(
+      "V.String is already defined",
+    );
+    expect(() => Variable.use({ name: "Mail", format: "email", validate: /./ })).toThrow(
+      'Format "email" of plugin Mail is already defined by Validator',
+    );
+    expect(Variable).not.toHaveProperty("Slug");
+  });
+
+  it("rejects other validators for registered formats", () => {
+    setup();
+    expect(() => Variable.use({ name: "Permalink", format: "slug", validate: /^[a-z]+$/ })).toThrow(
+      'Format "slug" of plugin Permalink is already defined by plugin Slug',
+    );
+    const X = Variable.use({
+      name: "Slug",
+      format: "slug",
+      validate: /^[a-z0-9]+(-[a-z0-9]+)*$/,
+      coerce: value => value.trim().toLowerCase(),
+    });
+    expect(X.Slug()).toMatchObject({ format: "slug", normalize: "slug" });
+  });
+
+  it("validates and coerces with Validator", () => {
+    const { schema } = setup();
+    const validator = new Validator(schema);
+    const { data, isValid } = validator.parse({ slug: "  My-Post ", tags: "#flyyer" });
+    expect(isValid).toBe(true);
+    expect(data).toEqual({ slug: "my-post", tags: ["#flyyer"] });
+    const variables: Static<typeof schema> = data;
+    expect(variables.slug).toBe("my-post");
+
+    const { errors } = validator.parse({ slug: "my post", tags: ["no tag"] });
+    expect(new ErrorFormatter(schema).format(errors)).toMatchObject({
+      slug: { messages: ["Slug must have the format slug"] },
+      tags: { messages: ["Tags must have the format hashtag"] },
+    });
+  });
+
+  it("adds formats to shared instances of AJV created before the plugin", () => {
+    const W = Variable.use({ name: "Handle", format: "handle", validate: /^@\w+$/ });
+    const validator = registry.get(W.Object({ handle: W.Handle() }));
+    expect(validator.validate({ handle: "@flyyer" })).toBe(true);
+    expect(validator.validate({ handle: "flyyer" })).toBe(false);
+  });
+
+  it("unregisters plugins", () => {
+    const { schema } = setup();
+    expect(unregisterPlugin("slug")).toBe(true);
+    expect(unregisterPlugin("slug")).toBe(false);
+    expect(plugins().map(plugin => plugin.name)).toEqual(["Hashtag"]);
+    expect(Is.Plugin(schema.properties.slug)).toBe(false);
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    expect(new Validator(schema).parse({ slug: " My-Post " }).data.slug).toBe(" My-Post ");
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('unknown format "slug"'));
+    warn.mockRestore();
+
+    const W = Variable.use({ name: "Handle", format: "handle", validate: /^@\w+$/ });
+    const handles = registry.get(W.Object({ handle: W.Handle() }));
+    expect(handles.validate({ handle: "@flyyer" })).toBe(true);
+    unregisterPlugin("handle");
+    const Z = Variable.use({ name: "Handle", format: "handle", validate: /^#\w+$/ });
+    const validator = registry.get(Z.Object({ id: Z.Handle() }));
+    expect(validator.validate({ id: "#flyyer" })).toBe(true);
+    expect(validator.validate({ id: "@flyyer" })).toBe(false);
+    expect(handles.validate({ handle: "#flyyer" })).toBe(true);
+  });
+
+  it("detects plugins with Is", () => {
+    const { schema } = setup();
+    expect(Is.Plugin(schema.properties.slug)).toBe(true);
+    expect(Is.Plugin(schema.properties.slug, "hashtag")).toBe(false);
+    expect(Is.Plugin(Variable.String())).toBe(false);
+    expect(Is.kindOf(schema.properties.slug)).toBe("text");
+    expect(Is.kindOf(schema.properties.tags)).toBe("array");
+    expect(formFields(schema).map(field => field.kind)).toEqual(["text", "array"]);
+  });
+
+  it("works with lint and compile", () => {
+    const { V, schema } = setup();
+    expect(lint(schema).filter(diagnostic => diagnostic.code === "unknown-format")).toEqual([]);
+    expect(() => compile(V.Object({ tags: V.Hashtag() }))).toThrow(
+      "Not supported by compiled validators: V.use formats",
+    );
+  });
+});
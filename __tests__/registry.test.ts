@@ -0,0 +1,115 @@
+import { Variable as V, ValidatorRegistry, schemaHash } from "../src";
+
+describe("ValidatorRegistry", () => {
+  const first = V.Object({ title: V.String({ default: "Hello" }), count: V.Integer({ default: 1 }) });
+  const second = V.Object({ image: V.Image(), color: V.Optional(V.Color({ normalize: true })) });
+  const third = V.Object({ price: V.Price({ currency: true }), country: V.Country() });
+
+  it("computes a stable hash regardless of key order", () => {
+    const a = V.Object({ a: V.String(), b: V.Integer() });
+    const b = V.Object({ b: V.Integer(), a: V.String() });
+    expect(schemaHash(a)).toEqual(schemaHash(b));
+    expect(schemaHash(a)).toMatch(/^[0-9a-f]{16}$/);
+    expect(schemaHash(a)).not.toEqual(schemaHash(V.Object({ a: V.String(), b: V.Number() })));
+  });
+
+  it("shares one instance of AJV and compiles lazily", () => {
+    const registry = new ValidatorRegistry();
+    const a = registry.get(first);
+    const b = registry.get(second);
+    expect(a.ajv).toBe(registry.ajv);
+    expect(b.ajv).toBe(registry.ajv);
+    expect(a.key).not.toEqual(b.key);
+    expect(registry.get(first)).toBe(a);
+    expect(registry.size()).toBe(2);
+
+    const { data, isValid } = a.parse({ count: "2" });
+    expect(isValid).toBe(true);
+    expect(data).toEqual({ title: "Hello", count: 2 });
+    const title: string = data.title;
+    expect(title).toBe("Hello");
+
+    expect(b.parse({ image: "https://flyyer.io/logo.png", color: "red" }).data).toEqual({
+      image: "https://flyyer.io/logo.png",
+      color: "#FF0000",
+    });
+    expect(b.validate({ color: "red" })).toBe(false);
+  });
+
+  it("keys schemas by id or content hash", () => {
+    const registry = new ValidatorRegistry();
+    const byHash = registry.get(first);
+    const byId = registry.get(first, "template-1");
+    expect(registry.has(schemaHash(first))).toBe(true);
+    expect(registry.has("template-1")).toBe(true);
+    expect(byId).not.toBe(byHash);
+    // Same content is compiled once
+    expect(byId.key).toEqual(byHash.key);
+    expect(() => registry.get(second, "template-1")).toThrow('A different schema is registered with id "template-1"');
+    expect(
+      registry.get(V.Object({ count: V.Integer({ default: 1 }), title: V.String({ default: "Hello" }) }), "template-1"),
+    ).toBe(byId);
+  });
+
+  it("removes the least recently used schemas", () => {
+    const registry = new ValidatorRegistry({ maxSize: 2 });
+    registry.get(first, "first");
+    const b = registry.get(second, "second");
+    registry.get(first, "first");
+    registry.get(third, "third");
+    expect(registry.size()).toBe(2);
+    expect(registry.has("first")).toBe(true);
+    expect(registry.has("second")).toBe(false);
+    expect(registry.has("third")).toBe(true);
+    expect(registry.ajv.schemas[b.key]).toBeUndefined();
+    // Handles of removed schemas keep working without adding them back
+    expect(b.validate({ image: "https://flyyer.io/logo.png" })).toBe(true);
+    expect(registry.ajv.schemas[b.key]).toBeUndefined();
+  });
+
+  it("keeps the shared instance of AJV bounded", () => {
+    const registry = new ValidatorRegistry({ maxSize: 2 });
+    const validators = Array.from({ length: 20 }, (_, index) =>
+      registry.get(V.Object({ count: V.Integer({ default: index }) })),
+    );
+    validators.forEach((validator, index) => expect(validator.parse({}).data).toEqual({ count: index }));
+    const keys = Object.keys(registry.ajv.schemas).filter(key => key.startsWith("flyyer-variables/"));
+    expect(keys).toHaveLength(2);
+
+    const none = new ValidatorRegistry({ maxSize: 0 });
+    expect(none.maxSize).toBe(0);
+    expect(none.get(first).parse({}).data).toEqual({ title: "Hello", count: 1 });
+    expect(none.size()).toBe(0);
+  });
+
+  it("doesn't share schemas with different migrations", () => {
+    const registry = new ValidatorRegistry();
+    const versioned = (to: string) =>
+      V.Versioned(V.Object({ color: V.String() }), {
+        version: 2,
+        migrations: [{ version: 2, migrate: () => ({ color: to }) }],
+      });
+    const [red, blue] = [versioned("red"), versioned("blue")];
+    expect(registry.get(red).parse({}).data).toEqual({ color: "red" });
+    expect(registry.get(blue).parse({}).data).toEqual({ color: "blue" });
+    expect(registry.get({ ...red }).parse({}).data).toEqual({ color: "red" });
+    expect(() => registry.get(blue, "red")).not.toThrow();
+    expect(() => registry.get(red, "red")).toThrow(Error);
+  });
+
+  it("deletes schemas only when no other id uses them", () => {
+    const registry = new ValidatorRegistry();
+    const a = registry.get(first, "a");
+    registry.get(first, "b");
+    expect(registry.delete("a")).toBe(true);
+    expect(registry.delete("a")).toBe(false);
+    expect(registry.ajv.schemas[a.key]).toBeDefined();
+    expect(registry.delete("b")).toBe(true);
+    expect(registry.ajv.schemas[a.key]).toBeUndefined();
+
+    registry.get(second);
+    registry.get(third);
+    registry.clear();
+    expect(registry.size()).toBe(0);
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  Variable as V,
+  Validator,
+  ErrorFormatter,
+  Is,
+  RichTextParagraph,
+  formFields,
+  isSafeLink,
+  parseRichText,
+  renderRichText,
+  sample,
+  toDeclaration,
+} from "../src";
+
+describe("parseRichText", () => {
+  it("parses marks, line breaks and paragraphs", () => {
+    expect(parseRichText("Hello **big _world_**\nwith `code`\n\n[Flyyer](https://flyyer.io)")).toEqual([
+      {
+        type: "paragraph",
+        children: [
+          { text: "Hello ", marks: [] },
+          { text: "big ", marks: ["bold"] },
+          { text: "world", marks: ["bold", "italic"] },
+          { text: "\nwith ", marks: [] },
+          { text: "code", marks: ["code"] },
+        ],
+      },
+      { type: "paragraph", children: [{ text: "Flyyer", marks: ["link"], href: "https://flyyer.io" }] },
+    ]);
+  });
+
+  it("keeps unsupported syntax as text", () => {
+    const text = (value: string, marks?: any) =>
+      (parseRichText(value, { marks }) as RichTextParagraph[]).map(paragraph => paragraph.children);
+    expect(text("snake_case_name and 2 * 3 * 4")).toEqual([[{ text: "snake_case_name and 2 * 3 * 4", marks: [] }]]);
+    expect(text("\\*not italic\\* <b>html</b>")).toEqual([[{ text: "*not italic* <b>html</b>", marks: [] }]]);
+    expect(text("**bold** and [link](/a)", ["italic"])).toEqual([[{ text: "**bold** and [link](/a)", marks: [] }]]);
+  });
+
+  it("matches nested and partial delimiters", () => {
+    const text = (value: string) => (parseRichText(value) as RichTextParagraph[]).map(paragraph => paragraph.children);
+    expect(text("*a **b** c*")).toEqual([
+      [
+        { text: "a ", marks: ["italic"] },
+        { text: "b", marks: ["italic", "bold"] },
+        { text: " c", marks: ["italic"] },
+      ],
+    ]);
+    expect(text("***x*** and **y*")).toEqual([
+      [
+        { text: "x", marks: ["italic", "bold"] },
+        { text: " and *", marks: [] },
+        { text: "y", marks: ["italic"] },
+      ],
+    ]);
+    expect(text("*a [b* c](/x) `*d*`")).toEqual([
+      [
+        { text: "*a ", marks: [] },
+        { text: "b* c", marks: ["link"], href: "/x" },
+        { text: " ", marks: [] },
+        { text: "*d*", marks: ["code"] },
+      ],
+    ]);
+  });
+
+  it("parses long texts in linear time", () => {
+    const start = Date.now();
+    for (const unit of ["*a ", "**a ", "_a ", "[a](", "`a ", "[*a]"]) {
+      expect(parseRichText(unit.repeat(20000))).toHaveLength(1);
+    }
+    const nested = parseRichText("*a ".repeat(20000) + "a* ".repeat(20000)) as RichTextParagraph[];
+    expect((nested[0] as RichTextParagraph).children).toEqual([{ text: "a ".repeat(40000).trim(), marks: ["italic"] }]);
+    // Quadratic parsing takes minutes here
+    expect(Date.now() - start).toBeLessThan(3000);
+  });
+
+  it("rejects unsafe links", () => {
+    expect(parseRichText("[click](javascript:alert(1))")).toBeNull();
+    expect(parseRichText("[click](java\tscript:alert(1))")).toBeNull();
+    expect(parseRichText(1)).toBeNull();
+    expect(isSafeLink("mailto:hello@flyyer.io")).toBe(true);
+    expect(isSafeLink("#top")).toBe(true);
+    expect(isSafeLink("data:text/html,hi")).toBe(false);
+  });
+
+  it("renders safe HTML", () => {
+    expect(renderRichText(parseRichText('**Hi** "you"\n<script>\n\n[*a*](https://x.io/?a=1&b=2)'))).toBe(
+      '<p><strong>Hi</strong> &quot;you&quot;<br>&lt;script&gt;</p><p><a href="https://x.io/?a=1&amp;b=2" rel="noopener noreferrer"><em>a</em></a></p>',
+    );
+  });
+});
+
+describe("V.RichText", () => {
+  const schema = V.Object({
+    description: V.RichText({ marks: ["bold", "italic"], maxLength: 20 }),
+    headline: V.RichText({ output: "ast", default: "Hello **world**" }),
+    html: V.Optional(V.RichText({ output: "html" })),
+  });
+
+  it("creates markdown strings", () => {
+    expect(schema.properties.description).toMatchObject({
+      type: "string",
+      contentMediaType: "text/markdown",
+      richText: { marks: ["bold", "italic"] },
+      maxLength: 20,
+    });
+    expect(Is.RichText(schema.properties.headline)).toBe(true);
+    expect(Is.RichText(V.String())).toBe(false);
+    expect(Is.kindOf(schema.properties.html)).toBe("richtext");
+    expect(formFields(schema)[0]).toMatchObject({ kind: "richtext", marks: ["bold", "italic"] });
+  });
+
+  it("parses values with Validator", () => {
+    const validator = new Validator(schema);
+    const { data, isValid } = validator.parse({ description: "**Hi**", html: "a *b*" });
+    expect(isValid).toBe(true);
+    expect(data.description).toBe("**Hi**");
+    const headline: RichTextParagraph[] = data.headline;
+    expect(headline).toEqual([
+      {
+        type: "paragraph",
+        children: [
+          { text: "Hello ", marks: [] },
+          { text: "world", marks: ["bold"] },
+        ],
+      },
+    ]);
+    expect(data.html).toBe("<p>a <em>b</em></p>");
+  });
+
+  it("reports invalid texts", () => {
+    const { isValid, errors } = new Validator(schema).parse({
+      description: "This text is way too long",
+      headline: "[x](javascript:void(0))",
+    });
+    expect(isValid).toBe(false);
+    expect(new ErrorFormatter(schema).format(errors)).toEqual({
+      description: {
+        key: "description",
+        label: "Description",
+        messages: ["Description must have at most 20 characters"],
+      },
+      headline: {
+        key: "headline",
+        label: "Headline",
+        messages: ["Headline can only link to http, https or mailto URLs"],
+      },
+    });
+  });
+
+  it("skips parsing texts longer than maxLength", () => {
+    const { isValid, errors } = new Validator(schema).parse({
+      description: "*a ".repeat(100000) + "[x](javascript:0)",
+      headline: "Hi",
+    });
+    expect(isValid).toBe(false);
+    expect((errors || []).map(error => error.keyword)).toEqual(["maxLength"]);
+  });
+
+  it("creates samples and declarations", () => {
+    expect(sample(schema)).toEqual({
+      description: "Description",
+      headline: "Hello **world**",
+      html: "<p>Html</p>",
+    });
+    expect(toDeclaration(schema)).toContain(
+      'headline: { type: "paragraph"; children: { text: string; marks: ("bold" | "italic" | "code" | "link")[]; href?: string }[] }[];',
+    );
+  });
+});
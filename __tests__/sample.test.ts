@@ -0,0 +1,78 @@
+import { Variable as V, Validator, sample } from "../src";
+
+describe("sample", () => {
+  enum Alignment {
+    Y = "flex flex-col justify-center",
+    X = "flex flex-row justify-center",
+  }
+  const schema = V.Object({
+    title: V.String({ examples: ["Hello", "World"] }),
+    subtitle: V.String({ default: "Subtitle", examples: [] }),
+    description: V.Optional(V.String({ maxLength: 5 })),
+    color: V.ColorHex(),
+    createdAt: V.DateTime(),
+    date: V.Date(),
+    time: V.Time(),
+    email: V.Email(),
+    image: V.Image(),
+    font: V.Font(),
+    url: V.URL(),
+    alignment: V.EnumKeys(Alignment),
+    count: V.Integer({ minimum: 3, exclusiveMaximum: 5 }),
+    ratio: V.Number({ minimum: 0, maximum: 1 }),
+    dark: V.Boolean(),
+    price: V.Price({ minimum: 10, maximum: 20 }),
+    total: V.Price({ currency: true }),
+    tags: V.Array(V.String(), { minItems: 2 }),
+    background: V.Nullable(V.Image({ default: null })),
+  });
+
+  it("resolves examples, then defaults, then valid placeholders", () => {
+    const variables = sample(schema);
+    expect(variables).toMatchObject({
+      title: "Hello",
+      subtitle: "Subtitle",
+      description: "Descr",
+      alignment: "Y",
+      url: "https://flyyer.io",
+      tags: ["Tags", "Tags"],
+      background: null,
+    });
+    expect(variables.count).toBeGreaterThanOrEqual(3);
+    expect(variables.count).toBeLessThan(5);
+    expect(variables.total).toHaveProperty("currency", "USD");
+
+    const validator = new Validator(schema);
+    const validated = validator.parse(variables);
+    expect(validated.errors).toBeNull();
+    expect(validated.isValid).toBe(true);
+  });
+
+  it("is deterministic and supports nth example with seeds", () => {
+    expect(sample(schema)).toEqual(sample(schema));
+    expect(sample(schema, { index: 1 })).toHaveProperty("title", "World");
+    expect(sample(schema, { index: 2 })).toHaveProperty("title", "Hello");
+    expect(sample(schema, { index: -1 })).toHaveProperty("title", "World");
+    expect(sample(schema, { index: -4 })).toHaveProperty("title", "Hello");
+    expect(sample(schema, { seed: 1 }).color).not.toEqual(sample(schema, { seed: 2 }).color);
+  });
+
+  it("keeps placeholders within bounds that are not integers", () => {
+    const bounded = V.Object({
+      price: V.Price({ minimum: 10.2, maximum: 10.8 }),
+      count: V.Integer({ minimum: 1.5, maximum: 2.5 }),
+      ratio: V.Number({ minimum: 0.001, maximum: 0.004 }),
+    });
+    for (const seed of [0, 1, 2, 3]) {
+      const variables = sample(bounded, { seed });
+      expect(new Validator(bounded).parse(variables).isValid).toBe(true);
+    }
+    const narrow = sample(V.Object({ count: V.Integer({ minimum: 1.5, maximum: 1.7 }) })).count;
+    expect(narrow).toBeGreaterThanOrEqual(1.5);
+    expect(narrow).toBeLessThanOrEqual(1.7);
+  });
+
+  it("can skip optional properties", () => {
+    expect(sample(schema, { optional: false })).not.toHaveProperty("description");
+  });
+});
@@ -0,0 +1,79 @@
+import { StringKind, OptionalModifier, UnionKind } from "@sinclair/typebox";
+
+import { Variable as V, Validator, Is, fromJSON, toJSON } from "../src";
+
+enum Alignment {
+  Left = "left",
+  Center = "center",
+}
+
+describe("toJSON and fromJSON", () => {
+  const schema = V.Object({
+    title: V.String({ default: "Hello", examples: ["Hello"] }),
+    description: V.Optional(V.String()),
+    image: V.Nullable(V.Image()),
+    font: V.Optional(V.Font()),
+    color: V.ColorHex({ default: "#FFFFFF" }),
+    brand: V.Optional(V.Color({ normalize: true, syntaxes: ["hex", "named"] })),
+    alignment: V.EnumKeys(Alignment, { default: "Left" }),
+    values: V.Optional(V.Enum(Alignment)),
+    price: V.Price({ currency: true }),
+    phone: V.Optional(V.Phone({ normalize: true })),
+    address: V.Optional(V.Address()),
+    label: V.LocalizedString({ defaultLocale: "en" }),
+    tags: V.Array(V.String(), { default: [] }),
+    count: V.ReadonlyOptional(V.Integer({ minimum: 0 })),
+  });
+
+  it("is JSON-safe and keeps the TypeBox symbols as names", () => {
+    const json = toJSON(schema);
+    expect(JSON.parse(JSON.stringify(json))).toEqual(json);
+    expect(json).toMatchObject({
+      kind: "ObjectKind",
+      properties: {
+        description: { kind: "StringKind", modifier: "OptionalModifier" },
+        count: { kind: "IntegerKind", modifier: "ReadonlyOptionalModifier" },
+        label: { kind: "UnionKind", localized: true },
+      },
+    });
+  });
+
+  it("rebuilds the original schema", () => {
+    const rebuilt = fromJSON<typeof schema>(JSON.stringify(toJSON(schema)));
+    expect(rebuilt).toEqual(schema);
+    expect(rebuilt.properties.title.kind).toBe(StringKind);
+    expect(rebuilt.properties.description.modifier).toBe(OptionalModifier);
+    expect(rebuilt.properties.label.kind).toBe(UnionKind);
+
+    const original = Object.values(schema.properties).map(property => [Is.kindOf(property), Is.Optional(property)]);
+    const restored = Object.values(rebuilt.properties).map(property => [Is.kindOf(property), Is.Optional(property)]);
+    expect(restored).toEqual(original);
+  });
+
+  it("validates the same after a round trip", () => {
+    const rebuilt = fromJSON(toJSON(schema));
+    const variables = {
+      image: null,
+      brand: "RebeccaPurple",
+      alignment: "Center",
+      price: { amount: "10", currency: "USD" },
+      phone: "+56 9 1234 5678",
+      label: { en: "Hi", es: "Hola" },
+      count: "2",
+    };
+    expect(new Validator(rebuilt).parse(variables, { locale: "es" })).toEqual(
+      new Validator(schema).parse(variables, { locale: "es" }),
+    );
+    const invalid = { ...variables, alignment: "left", brand: "rgb(0 0 0)" };
+    expect(new Validator(rebuilt).parse(invalid)).toEqual(new Validator(schema).parse(invalid));
+  });
+
+  it("infers kinds and modifiers of plain JSON", () => {
+    const rebuilt = fromJSON(JSON.stringify(schema)) as any;
+    expect(rebuilt.kind).toBeTruthy();
+    expect(rebuilt.properties.title.kind).toBe(StringKind);
+    expect(Is.Optional(rebuilt.properties.description)).toBe(true);
+    expect(Is.Optional(rebuilt.properties.title)).toBe(false);
+    expect(Is.kindOf(rebuilt.properties.alignment)).toBe("enum-keys");
+  });
+});
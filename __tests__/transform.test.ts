@@ -0,0 +1,65 @@
+import { Variable as V, Static, Validator, StaticTransformed, normalizeColorHex } from "../src";
+
+describe("Validator.parse with transform", () => {
+  const schema = V.Object({
+    title: V.String(),
+    createdAt: V.DateTime(),
+    day: V.Optional(V.Date()),
+    color: V.ColorHex({ default: "fff" }),
+    colors: V.Array(V.ColorHex()),
+    image: V.Image(),
+    url: V.Nullable(V.URL()),
+    nested: V.Object({ updatedAt: V.DateTime() }),
+  });
+  const validator = new Validator(schema);
+  const variables = {
+    title: "Hello",
+    createdAt: "2021-09-16T20:20:39.000Z",
+    day: "2021-12-30",
+    colors: ["#AbCd", "a1b2c3"],
+    image: "/logo.png",
+    url: null,
+    nested: { updatedAt: "2021-09-17T00:00:00.000Z" },
+  };
+
+  it("keeps strings by default", () => {
+    const { data, isValid } = validator.parse(variables);
+    expect(isValid).toBe(true);
+    const createdAt: string = data.createdAt;
+    expect(createdAt).toBe("2021-09-16T20:20:39.000Z");
+    expect(data.color).toBe("fff");
+  });
+
+  it("returns dates, normalized colors and resolved URLs", () => {
+    const { data, isValid } = validator.parse(variables, { transform: true, baseURL: "https://flyyer.io/assets/" });
+    expect(isValid).toBe(true);
+    const createdAt: Date = data.createdAt;
+    expect(createdAt).toBeInstanceOf(Date);
+    expect(createdAt.toISOString()).toBe("2021-09-16T20:20:39.000Z");
+    expect(data.day).toEqual(new Date("2021-12-30"));
+    expect(data.nested.updatedAt).toBeInstanceOf(Date);
+    expect(data.title).toBe("Hello");
+    expect(data.color).toBe("#FFFFFF");
+    expect(data.colors).toEqual(["#AABBCCDD", "#A1B2C3"]);
+    expect(data.image).toBe("https://flyyer.io/logo.png");
+    expect(data.url).toBeNull();
+
+    type Transformed = StaticTransformed<typeof schema>;
+    const typed: Transformed = data;
+    expect(typed).toBe(data);
+  });
+
+  it("validates the same", () => {
+    const { isValid, data } = validator.parse({ ...variables, createdAt: "yesterday" }, { transform: true });
+    expect(isValid).toBe(false);
+    expect(data.createdAt).toBe("yesterday");
+    type Variables = Static<typeof schema>;
+    const invalid: Partial<Variables> = { color: "#GGG" };
+    expect(validator.parse(invalid, { transform: true }).isValid).toBe(false);
+  });
+
+  it("normalizes colors", () => {
+    expect(normalizeColorHex("abc")).toBe("#AABBCC");
+    expect(normalizeColorHex("#ABCDEF80", "lower")).toBe("#abcdef80");
+  });
+});
@@ -0,0 +1,74 @@
+import { Variable as V, Static, Validator, migrate } from "../src";
+
+enum Alignment {
+  Left = "left",
+  Center = "center",
+}
+
+describe("Variable.Versioned", () => {
+  const schema = V.Versioned(
+    V.Object({
+      headingColor: V.ColorHex({ default: "#FFFFFF" }),
+      alignment: V.Enum(Alignment, { default: Alignment.Left }),
+    }),
+    {
+      version: 3,
+      migrations: [
+        {
+          version: 2,
+          migrate: ({ titleColor, ...rest }) => ({ ...rest, headingColor: titleColor }),
+        },
+        {
+          version: 3,
+          migrate: variables => ({ ...variables, alignment: variables["centered"] ? "center" : "left" }),
+        },
+      ],
+    },
+  );
+  const validator = new Validator(schema);
+
+  it("keeps the JSON Schema output and typing", () => {
+    type Variables = Static<typeof schema>;
+    const variables: Variables = { headingColor: "#000000", alignment: Alignment.Center };
+    expect(variables).toBeTruthy();
+    expect(JSON.parse(JSON.stringify(schema))).toMatchObject({ type: "object", schemaVersion: 3 });
+    expect(JSON.stringify(schema)).not.toContain("migrate");
+  });
+
+  it("upgrades inputs from older versions", () => {
+    const parsed = validator.parse({ titleColor: "#000000", centered: true });
+    expect(parsed.isValid).toBe(true);
+    expect(parsed.data).toEqual({ headingColor: "#000000", alignment: "center", centered: true });
+    expect(parsed.migration).toEqual({ from: 1, to: 3, applied: [2, 3] });
+
+    expect(validator.parse({ _version: "2", headingColor: "#000000" }).migration).toEqual({
+      from: 2,
+      to: 3,
+      applied: [3],
+    });
+  });
+
+  it("skips migrations for current inputs", () => {
+    const parsed = validator.parse({ _version: 3, headingColor: "#000000", alignment: "center" });
+    expect(parsed.data).toEqual({ headingColor: "#000000", alignment: "center" });
+    expect(parsed.migration).toEqual({ from: 3, to: 3, applied: [] });
+    expect(new Validator(V.Object({})).parse({}).migration).toBeNull();
+  });
+
+  it("upgrades in place with validate", () => {
+    const variables: any = { titleColor: "#000000" };
+    expect(validator.validate(variables)).toBe(true);
+    expect(variables).toEqual({ headingColor: "#000000", alignment: "left" });
+  });
+
+  it("rejects unsorted migrations", () => {
+    const migration = (version: number) => ({ version, migrate: (variables: any) => variables });
+    expect(() => V.Versioned(V.Object({}), { migrations: [migration(3), migration(2)] })).toThrow(Error);
+    expect(() => V.Versioned(V.Object({}), { version: 2, migrations: [migration(3)] })).toThrow(Error);
+    expect(migrate(V.Versioned(V.Object({}), { migrations: [migration(2)] }), {}).report).toEqual({
+      from: 1,
+      to: 2,
+      applied: [2],
+    });
+  });
+});
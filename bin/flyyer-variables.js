@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+"use strict";
+
+const { cli } = require("../dist/cli.cjs.production.min.js");
+
+cli(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    console.error(error);
+    process.exitCode = 1;
+  },
+);
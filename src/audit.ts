@@ -0,0 +1,115 @@
+import { TSchema } from "@sinclair/typebox";
+import { ErrorObject } from "ajv";
+
+import { escapePointer } from "./pointer";
+
+/**
+ * - `coerced`: the type changed, like `"2"` to `2` or `"a"` to `["a"]` (`coerceTypes`).
+ * - `normalized`: same type but a different value, like `"fff"` to `"#FFFFFF"` (`V.ColorHex`, `V.Font`, etc.).
+ * - `default-applied`: missing value replaced by the `default` of the schema (`useDefaults`).
+ * - `removed-additional`: key not declared by an object with `additionalProperties: false` (`removeAdditional`).
+ */
+export type ParseChangeKind = "coerced" | "normalized" | "default-applied" | "removed-additional";
+
+export interface ParseChange {
+  /** JSON Pointer of the value, like `errors` of Ajv */
+  path: string;
+  kind: ParseChangeKind;
+  /** Missing for `default-applied` */
+  before?: unknown;
+  /** Missing for `removed-additional` */
+  after?: unknown;
+}
+
+export interface AuditOptions {
+  /** Return the list of `changes` made by `parse` to the input. */
+  changes?: boolean;
+  /** Report keys not declared by the schema as `additionalProperties` errors instead of keeping or dropping them. */
+  strict?: boolean;
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function pointer(path: string, key: string | number): string {
+  return `${path}/${escapePointer(String(key))}`;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+/**
+ * Compare the input of `Validator.parse` with the result of Ajv and list what changed (see `ParseChangeKind`).
+ * @example
+ * import { diffChanges } from "@flyyer/variables";
+ * diffChanges({ count: "2", titel: "Hello" }, { count: 2, color: "#FFFFFF" });
+ * // [
+ * //   { path: "/count", kind: "coerced", before: "2", after: 2 },
+ * //   { path: "/titel", kind: "removed-additional", before: "Hello" },
+ * //   { path: "/color", kind: "default-applied", after: "#FFFFFF" },
+ * // ]
+ */
+export function diffChanges(before: unknown, after: unknown, path = ""): ParseChange[] {
+  if (isObject(before) && isObject(after)) {
+    const changes: ParseChange[] = [];
+    for (const key of Object.keys(before)) {
+      if (key in after) {
+        changes.push(...diffChanges(before[key], after[key], pointer(path, key)));
+      } else {
+        changes.push({ path: pointer(path, key), kind: "removed-additional", before: before[key] });
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (!(key in before)) changes.push({ path: pointer(path, key), kind: "default-applied", after: after[key] });
+    }
+    return changes;
+  }
+  if (Array.isArray(before) && Array.isArray(after) && before.length === after.length) {
+    return ([] as ParseChange[]).concat(
+      ...before.map((item, index) => diffChanges(item, after[index], pointer(path, index))),
+    );
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  const kind = typeOf(before) === typeOf(after) ? "normalized" : "coerced";
+  return [{ path, kind, before, after }];
+}
+
+/**
+ * Errors for keys not declared by `properties` (or matched by `patternProperties` and `additionalProperties`) of the
+ * objects of the schema. Unions are not checked.
+ */
+export function unknownKeys(schema: TSchema, variables: unknown): ErrorObject[] {
+  const errors: ErrorObject[] = [];
+  const walk = (property: any, value: unknown, instancePath: string, schemaPath: string) => {
+    if (!property || typeof property !== "object") return;
+    if (property["type"] === "object" && isObject(value)) {
+      const properties: { [key: string]: unknown } = property["properties"] || {};
+      const patterns = Object.keys(property["patternProperties"] || {}).map(pattern => new RegExp(pattern, "u"));
+      const additional = property["additionalProperties"];
+      for (const key of Object.keys(value)) {
+        if (Object.prototype.hasOwnProperty.call(properties, key)) {
+          walk(properties[key], value[key], pointer(instancePath, key), pointer(`${schemaPath}/properties`, key));
+        } else if (!patterns.some(pattern => pattern.test(key)) && !additional) {
+          errors.push({
+            instancePath,
+            schemaPath: `${schemaPath}/additionalProperties`,
+            keyword: "additionalProperties",
+            params: { additionalProperty: key },
+            message: "must NOT have additional properties",
+          });
+        }
+      }
+    } else if (property["type"] === "array" && Array.isArray(value)) {
+      const items = property["items"];
+      value.forEach((item, index) => {
+        const [schema, path] = Array.isArray(items) ? [items[index], `/items/${index}`] : [items, "/items"];
+        walk(schema, item, pointer(instancePath, index), `${schemaPath}${path}`);
+      });
+    }
+  };
+  walk(schema, variables, "", "#");
+  return errors;
+}
@@ -0,0 +1,324 @@
+import { readFileSync, writeFileSync } from "fs";
+import { Module } from "module";
+import { resolve } from "path";
+
+import { TSchema } from "@sinclair/typebox";
+
+// Only from the main entry, the CLI is bundled apart (see `tsdx.config.js`)
+import { ErrorFormatter, fromJSON, Is, toDeclaration, toOpenAPISchema, toOpenAPI, Validator } from "./index";
+
+export interface CLIOptions {
+  /** Directory to resolve paths from. Defaults to `process.cwd()` */
+  cwd?: string;
+  /** Defaults to `process.stdout` */
+  stdout?: (text: string) => void;
+  /** Defaults to `process.stderr` */
+  stderr?: (text: string) => void;
+}
+
+/** Exit codes of `cli` */
+export const EXIT_CODES = {
+  OK: 0,
+  /** Invalid variables */
+  INVALID: 1,
+  /** Wrong arguments or files that can't be loaded */
+  USAGE: 2,
+} as const;
+
+const USAGE = `Usage: flyyer-variables <command> [options]
+
+Commands:
+  validate <schema-module> <vars.json>   Run Validator.parse and print the errors
+  inspect <schema-module>                Print the variables with their kinds, defaults and examples
+  export <schema-module>                 Print the schema as JSON Schema, TypeScript declaration or OpenAPI
+
+Options:
+  --export <name>                     Name of the exported schema (default: schema)
+  --format <json-schema|dts|openapi>  Format of export (default: json-schema)
+  --name <name>                       Name of the TypeScript type or OpenAPI schema of export (default: Variables)
+  --out <file>                        Write export to a file instead of stdout
+  --locale <locale>                   Locale of validate errors and V.LocalizedString values (default: en)
+  --strict                            Report unknown keys as validate errors
+  --changes                           Print the coerced, normalized, defaulted and removed values of validate
+  --json                              Print validate and inspect results as JSON
+  --help                              Show this message
+
+<schema-module> is a local .js, .ts, .tsx or .json file. TypeScript files need the typescript package.`;
+
+/** Files imported by templates that are not JavaScript, resolved to their path (like bundlers). */
+const ASSETS = [".css", ".scss", ".sass", ".less", ".svg", ".png", ".jpg", ".jpeg", ".gif", ".webp", ".woff", ".woff2"];
+
+class UsageError extends Error {}
+
+/** `require` of a module */
+interface ModuleLoader {
+  (id: string): any;
+  extensions: { [extension: string]: any };
+}
+
+interface Arguments {
+  positionals: string[];
+  flags: { [name: string]: string | true };
+}
+
+function parseArguments(argv: string[]): Arguments {
+  const positionals: string[] = [];
+  const flags: { [name: string]: string | true } = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] as string;
+    const match = /^--([\w-]+)(?:=(.*))?$/.exec(arg);
+    if (!match || !match[1]) {
+      positionals.push(arg);
+    } else if (match[2] !== undefined) {
+      flags[match[1]] = match[2];
+    } else if (["help", "json", "strict", "changes"].includes(match[1])) {
+      flags[match[1]] = true;
+    } else {
+      const value = argv[++i];
+      if (value === undefined) throw new UsageError(`Missing value of --${match[1]}`);
+      flags[match[1]] = value;
+    }
+  }
+  return { positionals, flags };
+}
+
+function flag(args: Arguments, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+/** Compile `.ts` and `.tsx` files with the `typescript` package of the project (unless already registered, e.g. by ts-node). */
+function register(load: ModuleLoader, readFile: (path: string) => string) {
+  const extensions = load.extensions;
+  if (!extensions[".ts"]) {
+    let ts: any;
+    const compile = (module: any, filename: string) => {
+      // Only required by TypeScript files
+      try {
+        ts = ts || load("typescript");
+      } catch (e) {
+        throw new UsageError("Loading TypeScript files requires the typescript package");
+      }
+      const { outputText } = ts.transpileModule(readFile(filename), {
+        fileName: filename,
+        compilerOptions: {
+          module: ts.ModuleKind.CommonJS,
+          target: ts.ScriptTarget.ES2019,
+          jsx: ts.JsxEmit.React,
+          esModuleInterop: true,
+        },
+      });
+      module._compile(outputText, filename);
+    };
+    extensions[".ts"] = compile;
+    extensions[".tsx"] = compile;
+  }
+  for (const extension of ASSETS) {
+    if (!extensions[extension]) {
+      extensions[extension] = (module: any, filename: string) => {
+        module.exports = filename;
+      };
+    }
+  }
+}
+
+function loadSchema(file: string, args: Arguments, cwd: string): TSchema {
+  const path = resolve(cwd, file);
+  const readFile = (filename: string) => readFileSync(filename, "utf8");
+  if (path.endsWith(".json")) {
+    try {
+      return fromJSON(readFile(path));
+    } catch (e) {
+      throw new UsageError(`Can't read ${file}: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+  // The library supports Node.js 10, only loading modules needs `Module.createRequire`
+  if (typeof Module.createRequire !== "function") {
+    throw new UsageError(
+      `Loading ${file} needs Node.js 12.2 or later (found ${process.version}), use a .json file instead`,
+    );
+  }
+  const load = Module.createRequire(path);
+  register(load, readFile);
+  let exports: any;
+  try {
+    exports = load(path);
+  } catch (e) {
+    throw new UsageError(`Can't load ${file}: ${e instanceof Error ? e.message : e}`);
+  }
+  const name = flag(args, "export") || "schema";
+  const schema = exports && exports[name];
+  if (!schema || typeof schema !== "object") {
+    throw new UsageError(`${file} has no exported \`${name}\``);
+  }
+  return schema;
+}
+
+function readJSON(file: string, cwd: string): unknown {
+  try {
+    return JSON.parse(readFileSync(resolve(cwd, file), "utf8"));
+  } catch (e) {
+    throw new UsageError(`Can't read ${file}: ${e instanceof Error ? e.message : e}`);
+  }
+}
+
+interface Row {
+  path: string;
+  kind: string;
+  required: boolean;
+  default?: unknown;
+  examples?: unknown;
+}
+
+/** Properties of nested objects and array items (as `*`), paths are JSON Pointers like `lint`. */
+function rows(schema: any): Row[] {
+  const output: Row[] = [];
+  const walk = (property: any, path: string) => {
+    const properties = property["properties"];
+    if (properties && !Is.LocalizedString(property)) {
+      const required: string[] = property["required"] || [];
+      for (const key of Object.keys(properties)) {
+        const child = properties[key];
+        const childPath = `${path}/${key.replace(/~/g, "~0").replace(/\//g, "~1")}`;
+        output.push({
+          path: childPath,
+          kind: Is.kindOf(child),
+          required: required.includes(key),
+          default: child["default"],
+          examples: child["examples"],
+        });
+        walk(child, childPath);
+      }
+    }
+    const items = property["items"];
+    if (items && !Array.isArray(items) && items["type"] === "object") walk(items, `${path}/*`);
+  };
+  walk(schema, "");
+  return output;
+}
+
+function table(lines: string[][]): string {
+  const widths = (lines[0] || []).map((_, column) => Math.max(...lines.map(line => (line[column] || "").length)));
+  return lines
+    .map(line =>
+      line
+        .map((cell, column) => cell.padEnd(widths[column] || 0))
+        .join("  ")
+        .trimEnd(),
+    )
+    .join("\n");
+}
+
+function run(args: Arguments, cwd: string, stdout: (text: string) => void): number {
+  const [command, file, variablesFile] = args.positionals;
+  if (args.flags["help"] || !command) {
+    stdout(`${USAGE}\n`);
+    return command || args.flags["help"] ? EXIT_CODES.OK : EXIT_CODES.USAGE;
+  }
+  if (!["validate", "inspect", "export"].includes(command)) throw new UsageError(`Unknown command ${command}`);
+  if (!file) throw new UsageError(`Missing <schema-module>`);
+  const schema = loadSchema(file, args, cwd);
+
+  switch (command) {
+    case "validate": {
+      if (!variablesFile) throw new UsageError(`Missing <vars.json>`);
+      const variables = readJSON(variablesFile, cwd);
+      const locale = flag(args, "locale");
+      const strict = args.flags["strict"] === true;
+      const audit = args.flags["changes"] === true;
+      const { data, isValid, errors, changes } = new Validator(schema).parse(variables, {
+        locale,
+        strict,
+        changes: audit,
+      });
+      if (args.flags["json"]) {
+        const output = audit
+          ? { isValid, data, errors: errors || [], changes }
+          : { isValid, data, errors: errors || [] };
+        stdout(`${JSON.stringify(output, null, 2)}\n`);
+      } else {
+        if (isValid) {
+          stdout(`Valid variables\n`);
+        } else {
+          const groups = new ErrorFormatter(schema, { locale }).format(errors);
+          const lines = ([] as string[]).concat(
+            ...Object.values(groups).map(group => group.messages.map(message => `  /${group.key}: ${message}`)),
+          );
+          stdout(`Invalid variables:\n${lines.join("\n")}\n`);
+        }
+        if (changes && changes.length > 0) {
+          const json = (value: unknown) => (value === undefined ? "(missing)" : JSON.stringify(value));
+          const lines = changes.map(
+            change => `  ${change.path}: ${change.kind} ${json(change.before)} -> ${json(change.after)}`,
+          );
+          stdout(`Changes:\n${lines.join("\n")}\n`);
+        }
+      }
+      return isValid ? EXIT_CODES.OK : EXIT_CODES.INVALID;
+    }
+    case "inspect": {
+      const found = rows(schema);
+      if (args.flags["json"]) {
+        stdout(`${JSON.stringify(found, null, 2)}\n`);
+      } else {
+        const json = (value: unknown) => (value === undefined ? "" : JSON.stringify(value));
+        const lines = found.map(row => [
+          row.path,
+          row.kind,
+          row.required ? "required" : "optional",
+          json(row.default),
+          json(row.examples),
+        ]);
+        stdout(`${table([["PATH", "KIND", "REQUIRED", "DEFAULT", "EXAMPLES"], ...lines])}\n`);
+      }
+      return EXIT_CODES.OK;
+    }
+    default: {
+      const format = flag(args, "format") || "json-schema";
+      let output: string;
+      if (format === "json-schema") {
+        // Without the keywords of this package, like OpenAPI
+        const json = toOpenAPISchema(schema);
+        output = `${JSON.stringify({ $schema: "http://json-schema.org/draft-07/schema#", ...json }, null, 2)}\n`;
+      } else if (format === "dts") {
+        output = toDeclaration(schema, { name: flag(args, "name") });
+      } else if (format === "openapi") {
+        output = `${JSON.stringify(toOpenAPI(schema, { name: flag(args, "name") }), null, 2)}\n`;
+      } else {
+        throw new UsageError(`Unknown format ${format}, use json-schema, dts or openapi`);
+      }
+      const out = flag(args, "out");
+      if (out) {
+        writeFileSync(resolve(cwd, out), output);
+      } else {
+        stdout(output);
+      }
+      return EXIT_CODES.OK;
+    }
+  }
+}
+
+/**
+ * Command-line tool of the `flyyer-variables` bin (Node.js only), returns the exit code (see `EXIT_CODES`).
+ * @example
+ * // flyyer-variables validate templates/main.tsx variables.json
+ * // flyyer-variables inspect templates/main.tsx
+ * // flyyer-variables export templates/main.tsx --format dts --out variables.d.ts
+ * // Not part of the main entry, same as `bin/flyyer-variables.js`
+ * const { cli } = require("@flyyer/variables/dist/cli.cjs.production.min.js");
+ * process.exitCode = await cli(process.argv.slice(2));
+ */
+export async function cli(argv: string[], options: CLIOptions = {}): Promise<number> {
+  const {
+    cwd = process.cwd(),
+    stdout = (text: string) => process.stdout.write(text),
+    stderr = (text: string) => process.stderr.write(text),
+  } = options;
+  try {
+    return run(parseArguments(argv), cwd, stdout);
+  } catch (e) {
+    if (!(e instanceof UsageError)) throw e;
+    stderr(`${e.message}\n\n${USAGE}\n`);
+    return EXIT_CODES.USAGE;
+  }
+}
@@ -0,0 +1,250 @@
+import { TSchema } from "@sinclair/typebox";
+
+import { Static } from "./index";
+
+export interface QueryEncodeOptions {
+  /** Drop values deep equal to the property's `default` (the server will fill them). Defaults to `true`. */
+  skipDefaults?: boolean;
+}
+
+/** Structural type of `URLSearchParams` (also works with `url.URLSearchParams` on Node.js). */
+export interface QuerySearchParams {
+  forEach(callback: (value: string, key: string) => void): void;
+}
+
+type Tree = { [key: string]: unknown };
+
+const NULL_VALUE = "null";
+const TRUE_VALUES = ["true", "1", "on"];
+const FALSE_VALUES = ["false", "0", "off"];
+const REGEX_INDEX = /^\d+$/;
+/** Segments that would modify `Object.prototype` */
+const UNSAFE_SEGMENTS = ["__proto__", "constructor", "prototype"];
+
+/**
+ * Split `title[text]` into `["title", "text"]` and `tags[]` into `["tags", ""]`.
+ */
+function splitKey(key: string): string[] {
+  const start = key.indexOf("[");
+  if (start <= 0 || !key.endsWith("]")) {
+    return [key];
+  }
+  const head = key.slice(0, start);
+  const rest = key.slice(start + 1, -1).split("][");
+  return [head, ...rest];
+}
+
+function decodeComponent(value: string): string {
+  const text = value.replace(/\+/g, " ");
+  try {
+    return decodeURIComponent(text);
+  } catch (e) {
+    // Malformed sequences like `100%` are kept as they are
+    if (e instanceof URIError) return text;
+    throw e;
+  }
+}
+
+/**
+ * Same as `new URLSearchParams(query).forEach(callback)` without depending on the global.
+ */
+function forEachPair(query: string, callback: (value: string, key: string) => void): void {
+  for (const pair of query.replace(/^\?/, "").split("&")) {
+    if (!pair) continue;
+    const index = pair.indexOf("=");
+    const key = index === -1 ? pair : pair.slice(0, index);
+    const value = index === -1 ? "" : pair.slice(index + 1);
+    callback(decodeComponent(value), decodeComponent(key));
+  }
+}
+
+/** Own member of an object, inherited ones like `toString` are ignored */
+function own<T>(object: { [key: string]: T }, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(object, key) ? object[key] : undefined;
+}
+
+function isTree(value: unknown): value is Tree {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function assign(tree: Tree, segments: string[], value: string): void {
+  const [segment = "", ...rest] = segments;
+  if (rest.length === 0) {
+    const current = own(tree, segment);
+    if (current === undefined) {
+      tree[segment] = value;
+    } else if (Array.isArray(current)) {
+      current.push(value);
+    } else {
+      // Repeated keys like `tags=a&tags=b`
+      tree[segment] = [current, value];
+    }
+    return;
+  }
+  if (rest[0] === "" && rest.length === 1) {
+    // Array push like `tags[]=a`
+    const current = own(tree, segment);
+    tree[segment] = Array.isArray(current) ? [...current, value] : current === undefined ? [value] : [current, value];
+    return;
+  }
+  const current = own(tree, segment);
+  const child: Tree = isTree(current) ? current : {};
+  tree[segment] = child;
+  assign(child, rest, value);
+}
+
+function types(schema: TSchema): string[] {
+  const type = (schema as any)["type"];
+  return Array.isArray(type) ? type : type ? [type] : [];
+}
+
+function coerce(value: unknown, schema: TSchema | undefined): unknown {
+  if (!schema) {
+    return value;
+  }
+  const nullable = (schema as any)["nullable"] === true;
+  const declared = types(schema);
+  if (typeof value === "string" && nullable) {
+    if (value === NULL_VALUE || (value === "" && !declared.includes("string"))) {
+      return null;
+    }
+  }
+  const anyOf: TSchema[] | undefined = (schema as any)["anyOf"];
+  if (anyOf) {
+    for (const option of anyOf) {
+      const coerced = coerce(value, option);
+      if (coerced !== value || typeof value !== "string") return coerced;
+    }
+    return value;
+  }
+  const enumeration: unknown[] | undefined = (schema as any)["enum"];
+  if (enumeration && typeof value === "string") {
+    const found = enumeration.find(item => String(item) === value);
+    return found === undefined ? value : found;
+  }
+  if (declared.includes("array")) {
+    const items: TSchema | undefined = (schema as any)["items"];
+    if (Array.isArray(value)) {
+      return value.map(item => coerce(item, items));
+    } else if (isTree(value)) {
+      // Indexed like `items[0][name]=a&items[1][name]=b`
+      return Object.keys(value)
+        .filter(key => REGEX_INDEX.test(key))
+        .sort((a, b) => Number(a) - Number(b))
+        .map(key => coerce(value[key], items));
+    } else if (value !== undefined) {
+      return [coerce(value, items)];
+    }
+    return value;
+  }
+  if (declared.includes("object")) {
+    if (!isTree(value)) return value;
+    const properties: { [key: string]: TSchema } = (schema as any)["properties"] || {};
+    const output: Tree = {};
+    for (const key of Object.keys(value)) {
+      output[key] = coerce(value[key], own(properties, key));
+    }
+    return output;
+  }
+  if (typeof value !== "string") {
+    return value;
+  }
+  if (declared.includes("boolean")) {
+    if (TRUE_VALUES.includes(value)) return true;
+    if (FALSE_VALUES.includes(value)) return false;
+  }
+  if (declared.includes("integer") || declared.includes("number")) {
+    const number = Number(value);
+    if (value.trim() !== "" && Number.isFinite(number)) return number;
+  }
+  if (declared.includes("null") && (value === NULL_VALUE || value === "")) {
+    return null;
+  }
+  return value;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function serialize(value: unknown): string {
+  if (value === null) return NULL_VALUE;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+function encodeKey(segments: string[]): string {
+  const [head = "", ...rest] = segments.map(segment => encodeURIComponent(segment));
+  return head + rest.map(segment => `[${segment}]`).join("");
+}
+
+/**
+ * Decode and encode Flyyer render URLs query-strings like `title[text]=Hello&title[font]=Roboto` based on a schema.
+ *
+ * Decoded values are coerced by their declared type (numbers, booleans, arrays, `null` for `V.Nullable`) but they are not validated, use `Validator` for that.
+ * @example
+ * import { Variable as V, QueryCodec, Validator } from "@flyyer/variables";
+ * export const schema = V.Object({
+ *   title: V.Object({ text: V.String(), font: V.Font({ default: "Inter" }) }),
+ *   tags: V.Array(V.String()),
+ *   price: V.Nullable(V.Number()),
+ * });
+ * const codec = new QueryCodec(schema);
+ * const variables = codec.decode("title[text]=Hello&tags[]=a&tags[]=b&price=null");
+ * // { title: { text: "Hello" }, tags: ["a", "b"], price: null }
+ * const validator = new Validator(schema);
+ * validator.parse(variables).data.title.font === "Inter" // true
+ *
+ * codec.encode({ title: { text: "Hello", font: "Inter" }, tags: ["a"], price: 10 });
+ * // "title[text]=Hello&tags[]=a&price=10"
+ */
+export class QueryCodec<U extends TSchema, D extends Static<U>> {
+  public constructor(public readonly schema: U) {}
+
+  /**
+   * Take a raw query-string (leading `?` is optional) or `URLSearchParams` and return variables coerced by the schema.
+   */
+  public decode(input: string | QuerySearchParams): D {
+    const tree: Tree = {};
+    const callback = (value: string, key: string) => {
+      const segments = splitKey(key);
+      if (!segments.some(segment => UNSAFE_SEGMENTS.includes(segment))) assign(tree, segments, value);
+    };
+    if (typeof input === "string") {
+      forEachPair(input, callback);
+    } else {
+      input.forEach(callback);
+    }
+    return coerce(tree, this.schema) as D;
+  }
+
+  /**
+   * Take variables and return a query-string (without leading `?`) using bracket notation for nested values.
+   */
+  public encode(variables: Partial<D>, options: QueryEncodeOptions = {}): string {
+    const { skipDefaults = true } = options;
+    const pairs: string[] = [];
+    const walk = (value: unknown, schema: TSchema | undefined, segments: string[], skippable: boolean): void => {
+      if (value === undefined) return;
+      const fallback = schema && (schema as any)["default"];
+      if (skipDefaults && skippable && fallback !== undefined && isEqual(value, fallback)) return;
+      if (Array.isArray(value)) {
+        const items: TSchema | undefined = schema && (schema as any)["items"];
+        value.forEach((item, index) => {
+          const nested = isTree(item) || Array.isArray(item);
+          // Positions matter so array items are never skipped.
+          walk(item, items, [...segments, nested ? String(index) : ""], false);
+        });
+      } else if (isTree(value) && !(value instanceof Date)) {
+        const properties: { [key: string]: TSchema } = (schema && (schema as any)["properties"]) || {};
+        for (const key of Object.keys(value)) {
+          walk(value[key], own(properties, key), [...segments, key], true);
+        }
+      } else {
+        pairs.push(`${encodeKey(segments)}=${encodeURIComponent(serialize(value))}`);
+      }
+    };
+    walk(variables, this.schema, [], false);
+    return pairs.join("&");
+  }
+}
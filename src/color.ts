@@ -0,0 +1,262 @@
+/**
+ * Syntaxes of CSS Color Module Level 4 accepted by `V.Color`.
+ * @see https://www.w3.org/TR/css-color-4/
+ */
+export const COLOR_SYNTAXES = ["hex", "rgb", "hsl", "hwb", "lab", "lch", "oklab", "oklch", "named"] as const;
+
+export type ColorSyntax = typeof COLOR_SYNTAXES[number];
+
+export interface ParsedColor {
+  syntax: ColorSyntax;
+  /** sRGB channels from `0` to `255` (clamped to the sRGB gamut) */
+  red: number;
+  green: number;
+  blue: number;
+  /** From `0` to `1` */
+  alpha: number;
+}
+
+/**
+ * CSS named colors (plus `transparent`) as hexadecimal.
+ * Source: https://www.w3.org/TR/css-color-4/#named-colors
+ */
+// prettier-ignore
+export const NAMED_COLORS: { [name: string]: string } = {
+  aliceblue: "#F0F8FF", antiquewhite: "#FAEBD7", aqua: "#00FFFF", aquamarine: "#7FFFD4", azure: "#F0FFFF",
+  beige: "#F5F5DC", bisque: "#FFE4C4", black: "#000000", blanchedalmond: "#FFEBCD", blue: "#0000FF",
+  blueviolet: "#8A2BE2", brown: "#A52A2A", burlywood: "#DEB887", cadetblue: "#5F9EA0", chartreuse: "#7FFF00",
+  chocolate: "#D2691E", coral: "#FF7F50", cornflowerblue: "#6495ED", cornsilk: "#FFF8DC", crimson: "#DC143C",
+  cyan: "#00FFFF", darkblue: "#00008B", darkcyan: "#008B8B", darkgoldenrod: "#B8860B", darkgray: "#A9A9A9",
+  darkgreen: "#006400", darkgrey: "#A9A9A9", darkkhaki: "#BDB76B", darkmagenta: "#8B008B", darkolivegreen: "#556B2F",
+  darkorange: "#FF8C00", darkorchid: "#9932CC", darkred: "#8B0000", darksalmon: "#E9967A", darkseagreen: "#8FBC8F",
+  darkslateblue: "#483D8B", darkslategray: "#2F4F4F", darkslategrey: "#2F4F4F", darkturquoise: "#00CED1",
+  darkviolet: "#9400D3", deeppink: "#FF1493", deepskyblue: "#00BFFF", dimgray: "#696969", dimgrey: "#696969",
+  dodgerblue: "#1E90FF", firebrick: "#B22222", floralwhite: "#FFFAF0", forestgreen: "#228B22", fuchsia: "#FF00FF",
+  gainsboro: "#DCDCDC", ghostwhite: "#F8F8FF", gold: "#FFD700", goldenrod: "#DAA520", gray: "#808080",
+  green: "#008000", greenyellow: "#ADFF2F", grey: "#808080", honeydew: "#F0FFF0", hotpink: "#FF69B4",
+  indianred: "#CD5C5C", indigo: "#4B0082", ivory: "#FFFFF0", khaki: "#F0E68C", lavender: "#E6E6FA",
+  lavenderblush: "#FFF0F5", lawngreen: "#7CFC00", lemonchiffon: "#FFFACD", lightblue: "#ADD8E6", lightcoral: "#F08080",
+  lightcyan: "#E0FFFF", lightgoldenrodyellow: "#FAFAD2", lightgray: "#D3D3D3", lightgreen: "#90EE90",
+  lightgrey: "#D3D3D3", lightpink: "#FFB6C1", lightsalmon: "#FFA07A", lightseagreen: "#20B2AA",
+  lightskyblue: "#87CEFA", lightslategray: "#778899", lightslategrey: "#778899", lightsteelblue: "#B0C4DE",
+  lightyellow: "#FFFFE0", lime: "#00FF00", limegreen: "#32CD32", linen: "#FAF0E6", magenta: "#FF00FF",
+  maroon: "#800000", mediumaquamarine: "#66CDAA", mediumblue: "#0000CD", mediumorchid: "#BA55D3",
+  mediumpurple: "#9370DB", mediumseagreen: "#3CB371", mediumslateblue: "#7B68EE", mediumspringgreen: "#00FA9A",
+  mediumturquoise: "#48D1CC", mediumvioletred: "#C71585", midnightblue: "#191970", mintcream: "#F5FFFA",
+  mistyrose: "#FFE4E1", moccasin: "#FFE4B5", navajowhite: "#FFDEAD", navy: "#000080", oldlace: "#FDF5E6",
+  olive: "#808000", olivedrab: "#6B8E23", orange: "#FFA500", orangered: "#FF4500", orchid: "#DA70D6",
+  palegoldenrod: "#EEE8AA", palegreen: "#98FB98", paleturquoise: "#AFEEEE", palevioletred: "#DB7093",
+  papayawhip: "#FFEFD5", peachpuff: "#FFDAB9", peru: "#CD853F", pink: "#FFC0CB", plum: "#DDA0DD",
+  powderblue: "#B0E0E6", purple: "#800080", rebeccapurple: "#663399", red: "#FF0000", rosybrown: "#BC8F8F",
+  royalblue: "#4169E1", saddlebrown: "#8B4513", salmon: "#FA8072", sandybrown: "#F4A460", seagreen: "#2E8B57",
+  seashell: "#FFF5EE", sienna: "#A0522D", silver: "#C0C0C0", skyblue: "#87CEEB", slateblue: "#6A5ACD",
+  slategray: "#708090", slategrey: "#708090", snow: "#FFFAFA", springgreen: "#00FF7F", steelblue: "#4682B4",
+  tan: "#D2B48C", teal: "#008080", thistle: "#D8BFD8", tomato: "#FF6347", turquoise: "#40E0D0",
+  violet: "#EE82EE", wheat: "#F5DEB3", white: "#FFFFFF", whitesmoke: "#F5F5F5", yellow: "#FFFF00",
+  yellowgreen: "#9ACD32", transparent: "#00000000",
+};
+
+const REGEX_HEX = /^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const REGEX_FUNCTION = /^([a-z]+)\((.*)\)$/i;
+const REGEX_COMPONENT = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/i;
+
+/** Number with optional unit, `none` is `0` */
+type Component = { value: number; unit: string };
+/** sRGB channels from `0` to `1` (may be out of gamut) */
+type RGB = [number, number, number];
+
+function component(text: string): Component | null {
+  if (text.toLowerCase() === "none") return { value: 0, unit: "" };
+  const match = REGEX_COMPONENT.exec(text);
+  if (!match) return null;
+  return { value: Number(match[1]), unit: (match[2] || "").toLowerCase() };
+}
+
+/** Plain numbers are used as they are, percentages are relative to `percent` (the value of `100%`). */
+function scale(input: Component | undefined, percent: number): number {
+  if (!input) return NaN;
+  if (input.unit === "%") return (input.value / 100) * percent;
+  return input.unit === "" ? input.value : NaN;
+}
+
+function hue(input: Component | undefined): number {
+  if (!input) return NaN;
+  switch (input.unit) {
+    case "":
+    case "deg":
+      return input.value;
+    case "rad":
+      return (input.value * 180) / Math.PI;
+    case "grad":
+      return input.value * 0.9;
+    case "turn":
+      return input.value * 360;
+    default:
+      return NaN;
+  }
+}
+
+function gamma(linear: number): number {
+  const abs = Math.abs(linear);
+  const value = abs <= 0.0031308 ? abs * 12.92 : 1.055 * Math.pow(abs, 1 / 2.4) - 0.055;
+  return linear < 0 ? -value : value;
+}
+
+function hsl(h: number, s: number, l: number): RGB {
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + ((h % 360) + 360) / 30) % 12;
+    return l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [f(0), f(8), f(4)];
+}
+
+function hwb(h: number, w: number, b: number): RGB {
+  if (w + b >= 1) {
+    const gray = w / (w + b);
+    return [gray, gray, gray];
+  }
+  return hsl(h, 1, 0.5).map(channel => channel * (1 - w - b) + w) as RGB;
+}
+
+/** CIE Lab (D50) to sRGB */
+function lab(l: number, a: number, b: number): RGB {
+  const k = 24389 / 27;
+  const e = 216 / 24389;
+  const fy = (l + 16) / 116;
+  const fx = a / 500 + fy;
+  const fz = fy - b / 200;
+  const x = (Math.pow(fx, 3) > e ? Math.pow(fx, 3) : (116 * fx - 16) / k) * (0.3457 / 0.3585);
+  const y = l > k * e ? Math.pow(fy, 3) : l / k;
+  const z = (Math.pow(fz, 3) > e ? Math.pow(fz, 3) : (116 * fz - 16) / k) * ((1 - 0.3457 - 0.3585) / 0.3585);
+  return [
+    gamma(3.1341359569958707 * x - 1.6173863321612538 * y - 0.4906619460083532 * z),
+    gamma(-0.978795502912089 * x + 1.916254567259524 * y + 0.03344273116131949 * z),
+    gamma(0.07195537988411677 * x - 0.2289768264158322 * y + 1.405386058324125 * z),
+  ];
+}
+
+/** Oklab to sRGB */
+function oklab(l: number, a: number, b: number): RGB {
+  const lms = [
+    Math.pow(l + 0.3963377774 * a + 0.2158037573 * b, 3),
+    Math.pow(l - 0.1055613458 * a - 0.0638541728 * b, 3),
+    Math.pow(l - 0.0894841775 * a - 1.291485548 * b, 3),
+  ] as RGB;
+  return [
+    gamma(4.0767416621 * lms[0] - 3.3077115913 * lms[1] + 0.2309699292 * lms[2]),
+    gamma(-1.2684380046 * lms[0] + 2.6097574011 * lms[1] - 0.3413193965 * lms[2]),
+    gamma(-0.0041960863 * lms[0] - 0.7034186147 * lms[1] + 1.707614701 * lms[2]),
+  ];
+}
+
+function polar(chroma: number, angle: number): [number, number] {
+  const radians = (angle * Math.PI) / 180;
+  return [chroma * Math.cos(radians), chroma * Math.sin(radians)];
+}
+
+/** Color functions and how their channels are converted to sRGB. */
+const FUNCTIONS: { [name: string]: [ColorSyntax, (channels: Component[]) => RGB] } = {
+  rgb: ["rgb", c => [scale(c[0], 255) / 255, scale(c[1], 255) / 255, scale(c[2], 255) / 255]],
+  hsl: ["hsl", c => hsl(hue(c[0]), scale(c[1], 100) / 100, scale(c[2], 100) / 100)],
+  hwb: ["hwb", c => hwb(hue(c[0]), scale(c[1], 100) / 100, scale(c[2], 100) / 100)],
+  lab: ["lab", c => lab(scale(c[0], 100), scale(c[1], 125), scale(c[2], 125))],
+  lch: ["lch", c => lab(scale(c[0], 100), ...polar(scale(c[1], 150), hue(c[2])))],
+  oklab: ["oklab", c => oklab(scale(c[0], 1), scale(c[1], 0.4), scale(c[2], 0.4))],
+  oklch: ["oklch", c => oklab(scale(c[0], 1), ...polar(scale(c[1], 0.4), hue(c[2])))],
+};
+/** Legacy names, same as the modern ones */
+const ALIASES: { [name: string]: string } = { rgba: "rgb", hsla: "hsl" };
+/** Functions that accept the comma separated syntax */
+const LEGACY = ["rgb", "rgba", "hsl", "hsla"];
+
+/** Own properties only, names like `constructor` are not colors */
+function lookup<T>(table: { [name: string]: T }, name: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(table, name) ? table[name] : undefined;
+}
+
+function fromHex(digits: string, syntax: ColorSyntax): ParsedColor {
+  const full =
+    digits.length < 6
+      ? digits
+          .split("")
+          .map(digit => digit + digit)
+          .join("")
+      : digits;
+  const channel = (index: number) => parseInt(full.slice(index * 2, index * 2 + 2), 16);
+  return {
+    syntax,
+    red: channel(0),
+    green: channel(1),
+    blue: channel(2),
+    alpha: full.length === 8 ? channel(3) / 255 : 1,
+  };
+}
+
+/**
+ * Parse a CSS color (hex, named colors and `rgb()`, `hsl()`, `hwb()`, `lab()`, `lch()`, `oklab()` and `oklch()` functions).
+ * Returns `null` for invalid or unsupported values like `currentcolor` or `color()`.
+ * @example
+ * import { parseColor } from "@flyyer/variables";
+ * parseColor("rgb(255 0 0 / 50%)"); // { syntax: "rgb", red: 255, green: 0, blue: 0, alpha: 0.5 }
+ */
+export function parseColor(value: string): ParsedColor | null {
+  const text = value.trim();
+  const hex = REGEX_HEX.exec(text);
+  if (hex && hex[1]) return fromHex(hex[1], "hex");
+  const named = lookup(NAMED_COLORS, text.toLowerCase());
+  if (named) return fromHex(named.slice(1), "named");
+
+  const match = REGEX_FUNCTION.exec(text);
+  if (!match || !match[1] || match[2] === undefined) return null;
+  const name = match[1].toLowerCase();
+  const definition = lookup(FUNCTIONS, lookup(ALIASES, name) || name);
+  if (!definition) return null;
+  const args = match[2].trim();
+  let channels: string[];
+  let alpha: string | undefined;
+  if (args.includes(",")) {
+    if (!LEGACY.includes(name)) return null;
+    const parts = args.split(",").map(arg => arg.trim());
+    if (parts.length < 3 || parts.length > 4) return null;
+    channels = parts.slice(0, 3);
+    alpha = parts[3];
+  } else {
+    const [rest = "", slash, ...more] = args.split("/");
+    if (more.length > 0 || (slash !== undefined && !slash.trim())) return null;
+    channels = rest.trim().split(/\s+/);
+    alpha = slash === undefined ? undefined : slash.trim();
+    if (channels.length !== 3) return null;
+  }
+  const components = channels.map(component);
+  if (components.some(c => c === null)) return null;
+  const [syntax, convert] = definition;
+  const rgb = convert(components as Component[]);
+  const opacity = alpha === undefined ? 1 : scale(component(alpha) || undefined, 1);
+  if (rgb.some(channel => !Number.isFinite(channel)) || !Number.isFinite(opacity)) return null;
+  const [red, green, blue] = rgb.map(channel => Math.round(Math.min(1, Math.max(0, channel)) * 255)) as RGB;
+  return { syntax, red, green, blue, alpha: Math.min(1, Math.max(0, opacity)) };
+}
+
+/**
+ * Convert any color supported by `parseColor` to uppercase `#RRGGBB` (or `#RRGGBBAA` when it has transparency).
+ *
+ * Invalid values are returned as they are.
+ * @example
+ * import { normalizeColor } from "@flyyer/variables";
+ * normalizeColor("rebeccapurple") === "#663399" // true
+ * normalizeColor("hsl(0 100% 50% / 0.5)") === "#FF000080" // true
+ */
+export function normalizeColor(value: string): string {
+  const color = parseColor(value);
+  if (!color) return value;
+  const channels = [color.red, color.green, color.blue];
+  if (color.alpha < 1) channels.push(Math.round(color.alpha * 255));
+  return (
+    "#" +
+    channels
+      .map(channel => channel.toString(16).padStart(2, "0"))
+      .join("")
+      .toUpperCase()
+  );
+}
@@ -0,0 +1,118 @@
+import { TSchema } from "@sinclair/typebox";
+import { _, ErrorObject } from "ajv";
+import standaloneCode from "ajv/dist/standalone";
+
+import { ParseChange } from "./audit";
+import { MigrationReport } from "./versioned";
+
+import { COUNTRY_CODES, CURRENCY_CODES, plugins, Static, toJSON, Validator } from "./index";
+
+/**
+ * Same contract as `Validator` (without parse options), exported by modules created with `compile`.
+ * @example
+ * import type { CompiledValidator } from "@flyyer/variables/compile";
+ * import type { schema } from "./schema";
+ * const validator: CompiledValidator<typeof schema> = require("./validator.compiled");
+ */
+export interface CompiledValidator<U extends TSchema, D extends Static<U> = Static<U>> {
+  parse(
+    variables: unknown,
+  ): {
+    readonly data: D;
+    readonly isValid: boolean;
+    readonly errors: ErrorObject[] | null | undefined;
+    readonly migration: MigrationReport | null;
+    readonly changes: ParseChange[] | null;
+  };
+  validate(variables: unknown): variables is D;
+}
+
+/** Keywords and formats that need functions from this package at runtime. */
+const UNSUPPORTED: [string, (property: any) => boolean][] = [
+  ["V.LocalizedString", property => property["localized"] === true],
+  ["V.Versioned", property => property["schemaVersion"] !== undefined],
+  ["V.Color", property => property["format"] === "color" || property["colorSyntaxes"] !== undefined],
+  ["normalize", property => property["normalize"] !== undefined],
+  ["V.Font options", property => property["font"] !== undefined],
+  ["V.RichText", property => property["richText"] !== undefined],
+  ["V.Image types", property => property["mimeTypes"] !== undefined || property["extensions"] !== undefined],
+  [
+    "V.use formats",
+    property => plugins().some(plugin => plugin.format === property["format"] && typeof plugin.validate === "function"),
+  ],
+];
+
+/** Custom formats of `Validator` that are not regular expressions (those are inlined by Ajv). */
+const FORMATS_CODE = [
+  `"currency": (value) => ${JSON.stringify(CURRENCY_CODES)}.includes(value)`,
+  `"country": (value) => ${JSON.stringify(COUNTRY_CODES)}.includes(value)`,
+  `"price": { type: "number", validate: Number.isFinite }`,
+  `"address": true`,
+];
+
+function unsupported(schema: TSchema): string[] {
+  const found = new Set<string>();
+  const walk = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(walk);
+    } else if (value && typeof value === "object") {
+      for (const [name, matches] of UNSUPPORTED) {
+        if (matches(value)) found.add(name);
+      }
+      Object.keys(value).forEach(key => key !== "default" && key !== "examples" && walk((value as any)[key]));
+    }
+  };
+  walk(schema);
+  return Array.from(found);
+}
+
+/**
+ * Compile a schema into the source code of a standalone CommonJS module that exports `parse` and `validate` (see
+ * `CompiledValidator`). Coercion, defaults, `removeAdditional` and formats work the same as `Validator`, but Ajv is
+ * not included: the module only requires `ajv/dist/runtime/*` and `ajv-formats/dist/formats`.
+ *
+ * Throws an `Error` for features that need this package at runtime like `V.LocalizedString`, `V.Versioned`, `V.Color`, `normalize`, options of `V.Font`, `V.RichText`, the `mimeTypes` or `extensions` of `V.Image` and plugin formats that are functions (see `V.use`).
+ * @example
+ * // scripts/compile.js (run at build time)
+ * import { writeFileSync } from "fs";
+ * import { compile } from "@flyyer/variables/compile";
+ * import { schema } from "../templates/schema";
+ * writeFileSync("templates/validator.compiled.js", compile(schema));
+ *
+ * // templates/main.tsx
+ * const validator = require("./validator.compiled");
+ * const { data, isValid } = validator.parse(variables);
+ */
+export function compile(schema: TSchema): string {
+  const features = unsupported(schema);
+  if (features.length > 0) {
+    throw new Error(`Not supported by compiled validators: ${features.join(", ")}`);
+  }
+  const formatOptions = Validator.DEFAULT_FORMATS_OPTIONS;
+  const mode = !Array.isArray(formatOptions) && formatOptions.mode === "full" ? "full" : "fast";
+  // Symbols of `kind` and `modifier` can't be part of the source code.
+  const validator = new Validator(toJSON(schema), { code: { source: true, formats: _`formats` } });
+  const source = standaloneCode(validator.ajv, validator.getSchema());
+  return [
+    `"use strict";`,
+    `const formats = Object.assign({}, require("ajv-formats/dist/formats").${mode}Formats, {`,
+    ...FORMATS_CODE.map(code => `  ${code},`),
+    `});`,
+    `const validateSchema = (function () {`,
+    `  const module = { exports: {} };`,
+    `  ${source}`,
+    `  return module.exports;`,
+    `})();`,
+    `function parse(variables) {`,
+    `  const data = JSON.parse(JSON.stringify(variables));`,
+    `  const isValid = validateSchema(data);`,
+    `  return { data: data, isValid: isValid, errors: validateSchema.errors, migration: null, changes: null };`,
+    `}`,
+    `function validate(variables) {`,
+    `  return validateSchema(variables);`,
+    `}`,
+    `exports.parse = parse;`,
+    `exports.validate = validate;`,
+    ``,
+  ].join("\n");
+}
@@ -0,0 +1,63 @@
+import { TProperties, TValue } from "@sinclair/typebox";
+
+/** Value of the non-standard `when` keyword of properties created with `V.When` */
+export interface WhenCondition<K extends string = string, V extends TValue = TValue, R extends boolean = boolean> {
+  /** Key of the sibling variable the property depends on */
+  key: K;
+  /** The property is visible when the variable of `key` is one of these values */
+  values: V[];
+  /** The property is required when visible */
+  required: R;
+}
+
+export interface WhenOptions<R extends boolean> {
+  /** Require the property when the condition matches. Defaults to `true` */
+  required?: R;
+}
+
+function conditionOf(property: unknown): WhenCondition | undefined {
+  const when = property && (property as any)["when"];
+  return when && typeof when === "object" && typeof when["key"] === "string" ? when : undefined;
+}
+
+/**
+ * Check if a property created with `V.When` (or a field from `formFields`) should be displayed for the current
+ * variables. Properties without conditions are always visible.
+ * @example
+ * import { isVisible } from "@flyyer/variables";
+ * const fields = formFields(schema).filter(field => isVisible(field, variables));
+ */
+export function isVisible(property: unknown, variables: unknown): boolean {
+  const when = conditionOf(property);
+  if (!when) return true;
+  const value = variables && typeof variables === "object" ? (variables as any)[when.key] : undefined;
+  return when.values.includes(value);
+}
+
+/**
+ * JSON Schema `if`/`then` rules of the `V.When` properties of an object, properties with the same condition share a rule.
+ *
+ * Throws an `Error` when a condition depends on an unknown property.
+ */
+export function conditionRules(properties: TProperties): object[] {
+  const rules = new Map<string, { key: string; values: TValue[]; required: string[] }>();
+  for (const name of Object.keys(properties)) {
+    const when = conditionOf(properties[name]);
+    if (!when) continue;
+    if (!properties[when.key] || when.key === name) {
+      throw new Error(`Condition of "${name}" depends on unknown variable "${when.key}"`);
+    }
+    if (!when.required) continue;
+    const id = JSON.stringify([when.key, when.values]);
+    const rule = rules.get(id) || { key: when.key, values: when.values, required: [] };
+    rule.required.push(name);
+    rules.set(id, rule);
+  }
+  return Array.from(rules.values()).map(({ key, values, required }) => ({
+    if: {
+      properties: { [key]: values.length === 1 ? { const: values[0] } : { enum: values } },
+      required: [key],
+    },
+    then: { required },
+  }));
+}
@@ -0,0 +1,188 @@
+import { ReadonlyModifier, ReadonlyOptionalModifier, TSchema } from "@sinclair/typebox";
+
+import { FONT_STYLES, FONT_WEIGHTS } from "./font";
+import { RICH_TEXT_MARKS } from "./richtext";
+
+import { Is } from "./index";
+
+export interface DeclarationOptions {
+  /** Name of the exported type. Defaults to `"Variables"` */
+  name?: string;
+}
+
+const INDENT = "  ";
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function literal(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+function union(types: string[]): string {
+  const unique = Array.from(new Set(types));
+  if (unique.includes("unknown")) return "unknown";
+  return unique.length > 0 ? unique.join(" | ") : "never";
+}
+
+function isRichTextAST(property: any): boolean {
+  return Is.RichText(property) && Boolean(property["richText"]) && property["richText"]["output"] === "ast";
+}
+
+/** Unions and intersections need parentheses as element types of arrays */
+function compound(property: any): boolean {
+  if (!property || Is.LocalizedString(property) || Is.FontDescriptor(property) || isRichTextAST(property)) return false;
+  if (Array.isArray(property["enum"])) return property["enum"].length > 1;
+  if (property["nullable"] === true) return true;
+  return ["anyOf", "oneOf", "allOf", "type"].some(keyword => Array.isArray(property[keyword]));
+}
+
+/** Values of enums, literals and unions of literals, `undefined` for other types */
+function literals(property: any): unknown[] | undefined {
+  if (!property || typeof property !== "object") return undefined;
+  if ("const" in property) return [property["const"]];
+  if (Array.isArray(property["enum"])) return property["enum"];
+  if (!Array.isArray(property["anyOf"])) return undefined;
+  const values = property["anyOf"].map(literals);
+  return values.every(Array.isArray) ? ([] as unknown[]).concat(...values) : undefined;
+}
+
+/**
+ * Same as `Static`: properties of `V.When` required by their condition make the object a union of the matching case,
+ * where they are required, and the other values of the variable they depend on.
+ */
+function cases(property: any, declareChild: (child: any) => string): string[] {
+  const properties: { [key: string]: any } = property["properties"] || {};
+  const groups = new Map<string, { key: string; values: unknown[]; names: string[] }>();
+  for (const name of Object.keys(properties)) {
+    const when = properties[name] && properties[name]["when"];
+    if (!when || when["required"] !== true || !properties[when["key"]]) continue;
+    const id = JSON.stringify([when["key"], when["values"]]);
+    const group = groups.get(id) || { key: when["key"], values: when["values"], names: [] as string[] };
+    group.names.push(name);
+    groups.set(id, group);
+  }
+  const field = (name: string, optional: boolean, type: string) =>
+    `${IDENTIFIER.test(name) ? name : literal(name)}${optional ? "?" : ""}: ${type}`;
+  return Array.from(groups.values()).map(({ key, values, names }) => {
+    const matched = union(values.map(literal));
+    const all = literals(properties[key]);
+    const others = all
+      ? union(all.filter(value => !values.includes(value)).map(literal))
+      : `Exclude<${declareChild(properties[key])}, ${matched}>`;
+    const types = names.map(name => declareChild(properties[name]));
+    const match = [field(key, false, matched), ...names.map((name, i) => field(name, false, types[i] as string))];
+    const other = [field(key, true, others), ...names.map((name, i) => field(name, true, types[i] as string))];
+    return `({ ${match.join("; ")} } | { ${other.join("; ")} })`;
+  });
+}
+
+function comment(property: any, indent: string): string[] {
+  const lines: string[] = [];
+  const text = typeof property["description"] === "string" ? property["description"] : property["title"];
+  if (typeof text === "string") lines.push(...text.replace(/\*\//g, "*\\/").split("\n"));
+  if (property["default"] !== undefined) lines.push(`@default ${literal(property["default"])}`);
+  if (lines.length === 0) return [];
+  if (lines.length === 1) return [`${indent}/** ${lines[0]} */`];
+  return [`${indent}/**`, ...lines.map(line => `${indent} * ${line}`), `${indent} */`];
+}
+
+function declare(property: any, depth: number): string {
+  if (!property || typeof property !== "object") return "unknown";
+  if (property["nullable"] === true) {
+    return union([declare({ ...property, nullable: undefined }, depth), "null"]);
+  }
+  // Facades: `Static` is the value after `Validator.parse`
+  if (Is.LocalizedString(property)) return "string";
+  if (Is.FontDescriptor(property)) {
+    const weights = union(FONT_WEIGHTS.map(literal));
+    const styles = union(FONT_STYLES.map(literal));
+    return `{ family: string; weights: (${weights})[]; styles: (${styles})[]; fallback: string }`;
+  }
+  if (isRichTextAST(property)) {
+    const marks = union(RICH_TEXT_MARKS.map(literal));
+    return `{ type: "paragraph"; children: { text: string; marks: (${marks})[]; href?: string }[] }[]`;
+  }
+  if ("const" in property) return literal(property["const"]);
+  if (Array.isArray(property["enum"])) return union(property["enum"].map(literal));
+  if (Array.isArray(property["anyOf"])) return union(property["anyOf"].map((item: any) => declare(item, depth)));
+  if (Array.isArray(property["oneOf"])) return union(property["oneOf"].map((item: any) => declare(item, depth)));
+  // `V.Object` with `V.When` properties, the rules are declared as `cases`
+  if (Array.isArray(property["allOf"]) && property["type"] === "object") {
+    const rules = property["allOf"].filter((item: any) => item && "if" in item);
+    if (rules.length === property["allOf"].length) {
+      return [
+        declare({ ...property, allOf: undefined }, depth),
+        ...cases(property, child => declare(child, depth + 1)),
+      ].join(" & ");
+    }
+  }
+  if (Array.isArray(property["allOf"])) return property["allOf"].map((item: any) => declare(item, depth)).join(" & ");
+  const type = property["type"];
+  if (Array.isArray(type)) return union(type.map(name => declare({ ...property, type: name }, depth)));
+  switch (type) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array": {
+      const items = property["items"];
+      if (Array.isArray(items)) return `[${items.map(item => declare(item, depth)).join(", ")}]`;
+      const element = declare(items, depth);
+      return compound(items) ? `(${element})[]` : `${element}[]`;
+    }
+    case "object": {
+      const properties: { [key: string]: any } = property["properties"] || {};
+      const required: string[] = property["required"] || [];
+      const indent = INDENT.repeat(depth + 1);
+      const lines: string[] = [];
+      for (const key of Object.keys(properties)) {
+        const child = properties[key];
+        const modifier = child && child["modifier"];
+        const readonly = modifier === ReadonlyModifier || modifier === ReadonlyOptionalModifier ? "readonly " : "";
+        const name = IDENTIFIER.test(key) ? key : literal(key);
+        const optional = required.includes(key) ? "" : "?";
+        lines.push(...comment(child, indent), `${indent}${readonly}${name}${optional}: ${declare(child, depth + 1)};`);
+      }
+      // `V.Record` uses `patternProperties`
+      const patterns: { [pattern: string]: any } = property["patternProperties"] || {};
+      const additional = [property["additionalProperties"], ...Object.values(patterns)].filter(
+        item => item && typeof item === "object",
+      );
+      if (additional.length > 0) {
+        lines.push(`${indent}[key: string]: ${union(additional.map(item => declare(item, depth + 1)))};`);
+      } else if (Object.keys(properties).length === 0) {
+        lines.push(`${indent}[key: string]: unknown;`);
+      }
+      return `{\n${lines.join("\n")}\n${INDENT.repeat(depth)}}`;
+    }
+    default:
+      return "unknown";
+  }
+}
+
+/**
+ * TypeScript declaration of `Static<typeof schema>` (the type of `data` returned by `Validator.parse`). Objects with
+ * `V.When` properties are declared as the same discriminated union.
+ * @example
+ * import { Variable as V, toDeclaration } from "@flyyer/variables";
+ * const schema = V.Object({ title: V.String(), count: V.Optional(V.Integer()) });
+ * toDeclaration(schema);
+ * // export interface Variables {
+ * //   title: string;
+ * //   count?: number;
+ * // }
+ */
+export function toDeclaration(schema: TSchema, options: DeclarationOptions = {}): string {
+  const { name = "Variables" } = options;
+  const property = schema as any;
+  const header = comment(property, "");
+  const conditional = Array.isArray(property["allOf"]);
+  if (property["type"] === "object" && !Is.LocalizedString(property) && property["nullable"] !== true && !conditional) {
+    return [...header, `export interface ${name} ${declare(property, 0)}`, ""].join("\n");
+  }
+  return [...header, `export type ${name} = ${declare(property, 0)};`, ""].join("\n");
+}
@@ -0,0 +1,271 @@
+import { TSchema } from "@sinclair/typebox";
+
+import { escapePointer } from "./pointer";
+
+import { Is } from "./index";
+
+/**
+ * - `"breaking"`: existing variables will fail validation or lose their value.
+ * - `"risky"`: some existing variables may fail validation or render differently.
+ * - `"safe"`: existing variables keep working.
+ */
+export type ChangeSeverity = "breaking" | "risky" | "safe";
+
+export type ChangeCode =
+  | "added"
+  | "added-required"
+  | "removed"
+  | "required"
+  | "optional"
+  | "type-changed"
+  | "format-changed"
+  | "enum-narrowed"
+  | "enum-widened"
+  | "enum-keys-changed"
+  | "constraint-tightened"
+  | "constraint-loosened"
+  | "pattern-changed"
+  | "nullable-removed"
+  | "default-changed";
+
+export interface SchemaChange {
+  /** Variable location as JSON Pointer (same as `lint`). Array items are represented with `*`. */
+  path: string;
+  severity: ChangeSeverity;
+  code: ChangeCode;
+  message: string;
+  /** Previous value of the changed keyword (when it applies) */
+  before?: unknown;
+  /** New value of the changed keyword (when it applies) */
+  after?: unknown;
+}
+
+/** Lower bounds, a greater new value is tighter. */
+const MIN_KEYWORDS = ["minimum", "exclusiveMinimum", "minLength", "minItems", "minProperties", "minWidth", "minHeight"];
+/** Upper bounds, a lower new value is tighter. */
+const MAX_KEYWORDS = ["maximum", "exclusiveMaximum", "maxLength", "maxItems", "maxProperties"];
+const SEVERITIES: ChangeSeverity[] = ["breaking", "risky", "safe"];
+
+function stringify(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+/** Accepted JSON types including unions like `V.LocalizedString` and `V.Nullable` */
+function types(property: any): string[] {
+  const output = new Set<string>();
+  const type = property["type"];
+  if (typeof type === "string") output.add(type);
+  if (Array.isArray(type)) type.forEach(name => output.add(name));
+  for (const keyword of ["anyOf", "oneOf"]) {
+    const options = property[keyword];
+    if (Array.isArray(options)) options.forEach(option => types(option).forEach(name => output.add(name)));
+  }
+  if (property["nullable"] === true) output.add("null");
+  return Array.from(output);
+}
+
+function hasDefault(property: any): boolean {
+  return property["default"] !== undefined;
+}
+
+/**
+ * Compare two versions of a schema and classify each change as `"breaking"`, `"risky"` or `"safe"` for existing variables.
+ * @example
+ * import { Variable as V, diff, formatDiff } from "@flyyer/variables";
+ * const previous = V.Object({ title: V.String(), color: V.ColorHex() });
+ * const next = V.Object({ title: V.String({ maxLength: 40 }), image: V.Image() });
+ * const changes = diff(previous, next);
+ * changes.some(change => change.severity === "breaking"); // true
+ * console.log(formatDiff(changes));
+ */
+export function diff(oldSchema: TSchema, newSchema: TSchema): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const report = (change: SchemaChange) => {
+    changes.push(change);
+  };
+
+  /** `required` when the parent object requires this property */
+  const walk = (before: any, after: any, path: string, required: boolean) => {
+    // Types
+    const oldTypes = types(before);
+    const newTypes = types(after);
+    const removed = oldTypes.filter(type => !newTypes.includes(type));
+    const added = newTypes.filter(type => !oldTypes.includes(type));
+    // Integers are valid numbers, `null` is checked below
+    const incompatible = removed.filter(
+      type => type !== "null" && !(type === "integer" && newTypes.includes("number")),
+    );
+    if (incompatible.length > 0) {
+      const message = `Type changed from ${oldTypes.join(" | ")} to ${newTypes.join(" | ")}`;
+      report({ path, severity: "breaking", code: "type-changed", message, before: oldTypes, after: newTypes });
+      // Everything else is irrelevant when values are not compatible
+      return;
+    }
+    if (removed.includes("null")) {
+      report({ path, severity: "risky", code: "nullable-removed", message: "No longer accepts null" });
+    }
+    if (added.some(type => type !== "null")) {
+      const message = `Type widened from ${oldTypes.join(" | ")} to ${newTypes.join(" | ")}`;
+      report({ path, severity: "safe", code: "type-changed", message, before: oldTypes, after: newTypes });
+    }
+
+    // Formats
+    for (const keyword of ["format", "contentMediaType"]) {
+      const previous = before[keyword];
+      const next = after[keyword];
+      if (previous === next || next === undefined) continue;
+      const message =
+        previous === undefined
+          ? `Added ${keyword} ${stringify(next)}`
+          : `Changed ${keyword} from ${stringify(previous)} to ${stringify(next)}`;
+      report({ path, severity: "breaking", code: "format-changed", message, before: previous, after: next });
+    }
+
+    // Enums
+    const oldEnum: unknown[] | undefined = before["enum"];
+    const newEnum: unknown[] | undefined = after["enum"];
+    if (Array.isArray(newEnum)) {
+      const keys = Is.EnumKeys(before) || Is.EnumKeys(after);
+      const code: ChangeCode = keys ? "enum-keys-changed" : "enum-narrowed";
+      if (!Array.isArray(oldEnum)) {
+        const message = `Now restricted to: ${newEnum.map(stringify).join(", ")}`;
+        report({ path, severity: "breaking", code, message, after: newEnum });
+      } else if (Is.EnumKeys(before) !== Is.EnumKeys(after)) {
+        const message = Is.EnumKeys(after)
+          ? "Changed from enum values to enum keys"
+          : "Changed from enum keys to values";
+        report({ path, severity: "breaking", code: "enum-keys-changed", message, before: oldEnum, after: newEnum });
+      } else {
+        const missing = oldEnum.filter(value => !newEnum.includes(value));
+        const extra = newEnum.filter(value => !oldEnum.includes(value));
+        if (missing.length > 0) {
+          const message = `Removed ${keys ? "keys" : "values"}: ${missing.map(stringify).join(", ")}`;
+          report({ path, severity: "breaking", code, message, before: oldEnum, after: newEnum });
+        }
+        if (extra.length > 0) {
+          const message = `Added ${keys ? "keys" : "values"}: ${extra.map(stringify).join(", ")}`;
+          report({
+            path,
+            severity: "safe",
+            code: keys ? "enum-keys-changed" : "enum-widened",
+            message,
+            before: oldEnum,
+            after: newEnum,
+          });
+        }
+      }
+    } else if (Array.isArray(oldEnum)) {
+      report({ path, severity: "safe", code: "enum-widened", message: "No longer restricted to enum values" });
+    }
+
+    // Constraints
+    for (const keyword of [...MIN_KEYWORDS, ...MAX_KEYWORDS]) {
+      const previous = before[keyword];
+      const next = after[keyword];
+      if (previous === next) continue;
+      const tighter = MIN_KEYWORDS.includes(keyword) ? next > previous : next < previous;
+      if (typeof next === "number" && (typeof previous !== "number" || tighter)) {
+        const message =
+          typeof previous === "number"
+            ? `${keyword} tightened from ${previous} to ${next}`
+            : `Added ${keyword} ${next}`;
+        report({ path, severity: "risky", code: "constraint-tightened", message, before: previous, after: next });
+      } else {
+        const message =
+          typeof next === "number"
+            ? `${keyword} loosened from ${previous} to ${next}`
+            : `Removed ${keyword} ${previous}`;
+        report({ path, severity: "safe", code: "constraint-loosened", message, before: previous, after: next });
+      }
+    }
+    const [oldPattern, newPattern] = [before["pattern"], after["pattern"]];
+    if (oldPattern !== newPattern && newPattern !== undefined) {
+      const message = `Pattern changed from ${stringify(oldPattern)} to ${stringify(newPattern)}`;
+      report({ path, severity: "risky", code: "pattern-changed", message, before: oldPattern, after: newPattern });
+    }
+
+    // Defaults
+    if (hasDefault(before) && stringify(before["default"]) !== stringify(after["default"])) {
+      const previous = before["default"];
+      const next = after["default"];
+      if (hasDefault(after)) {
+        const message = `Default changed from ${stringify(previous)} to ${stringify(next)}`;
+        report({ path, severity: "risky", code: "default-changed", message, before: previous, after: next });
+      } else {
+        const severity = required ? "breaking" : "risky";
+        const message = required ? "Removed default of a required variable" : `Removed default ${stringify(previous)}`;
+        report({ path, severity, code: "default-changed", message, before: previous });
+      }
+    }
+
+    // Children
+    if (before["properties"] && after["properties"]) {
+      const oldRequired: string[] = before["required"] || [];
+      const newRequired: string[] = after["required"] || [];
+      for (const key of Object.keys(before["properties"])) {
+        const child = `${path}/${escapePointer(key)}`;
+        const next = after["properties"][key];
+        if (!next) {
+          report({ path: child, severity: "breaking", code: "removed", message: "Variable was removed" });
+          continue;
+        }
+        if (!oldRequired.includes(key) && newRequired.includes(key)) {
+          const severity = hasDefault(next) ? "safe" : "breaking";
+          const message = hasDefault(next) ? "Now required (has default)" : "Now required without a default";
+          report({ path: child, severity, code: "required", message });
+        } else if (oldRequired.includes(key) && !newRequired.includes(key)) {
+          report({ path: child, severity: "safe", code: "optional", message: "No longer required" });
+        }
+        walk(before["properties"][key], next, child, newRequired.includes(key));
+      }
+      for (const key of Object.keys(after["properties"])) {
+        if (before["properties"][key]) continue;
+        const child = `${path}/${escapePointer(key)}`;
+        if (newRequired.includes(key) && !hasDefault(after["properties"][key])) {
+          report({
+            path: child,
+            severity: "breaking",
+            code: "added-required",
+            message: "New required variable without a default",
+          });
+        } else {
+          report({ path: child, severity: "safe", code: "added", message: "New variable" });
+        }
+      }
+    }
+    const oldItems = before["items"];
+    const newItems = after["items"];
+    if (oldItems && newItems && !Array.isArray(oldItems) && !Array.isArray(newItems)) {
+      walk(oldItems, newItems, `${path}/*`, true);
+    }
+  };
+  walk(oldSchema, newSchema, "", false);
+  return changes;
+}
+
+/**
+ * Human readable report of `diff`, grouped by severity.
+ * @example
+ * import { diff, formatDiff } from "@flyyer/variables";
+ * console.log(formatDiff(diff(previous, next)));
+ * // BREAKING /color: Variable was removed
+ * // RISKY    /title: Added maxLength 40
+ * // SAFE     /image: New variable
+ * //
+ * // 1 breaking, 1 risky, 1 safe
+ */
+export function formatDiff(changes: SchemaChange[]): string {
+  if (changes.length === 0) return "No changes";
+  const width = Math.max(...SEVERITIES.map(severity => severity.length));
+  const lines = ([] as string[]).concat(
+    ...SEVERITIES.map(severity =>
+      changes
+        .filter(change => change.severity === severity)
+        .map(change => `${severity.toUpperCase().padEnd(width)} ${change.path || "/"}: ${change.message}`),
+    ),
+  );
+  const summary = SEVERITIES.map(
+    severity => `${changes.filter(change => change.severity === severity).length} ${severity}`,
+  ).join(", ");
+  return [...lines, "", summary].join("\n");
+}
@@ -0,0 +1,335 @@
+import { TSchema } from "@sinclair/typebox";
+import { ErrorObject } from "ajv";
+
+import { humanize } from "./form";
+
+import { Is } from "./index";
+
+type Message = (label: string) => string;
+type LimitMessage = (label: string, limit: number) => string;
+
+/**
+ * Messages of a locale, `label` is the `title` of the property or its humanized key.
+ */
+export interface ErrorMessages {
+  required: Message;
+  additional: Message;
+  type: (label: string, type: string) => string;
+  enum: (label: string, allowed: string[]) => string;
+  color: Message;
+  image: Message;
+  imageType: (label: string, allowed: string[]) => string;
+  minWidth: LimitMessage;
+  minHeight: LimitMessage;
+  aspectRatio: LimitMessage;
+  url: Message;
+  font: Message;
+  richText: Message;
+  email: Message;
+  datetime: Message;
+  date: Message;
+  time: Message;
+  currency: Message;
+  country: Message;
+  phone: Message;
+  format: (label: string, format: string) => string;
+  minimum: LimitMessage;
+  maximum: LimitMessage;
+  exclusiveMinimum: LimitMessage;
+  exclusiveMaximum: LimitMessage;
+  minLength: LimitMessage;
+  maxLength: LimitMessage;
+  pattern: Message;
+  invalid: Message;
+  /** Localized names of JSON Schema types used by `type` */
+  types: { [type: string]: string };
+}
+
+export interface VariableErrors {
+  /** Top-level variable key, `""` for errors of the whole object */
+  key: string;
+  /** `title` of the variable or its humanized key */
+  label: string;
+  messages: string[];
+}
+
+export interface ErrorFormatterOptions {
+  /** BCP 47 locale like `"es-CL"`, falls back to `"es"` and then to `"en"`. Defaults to `"en"` */
+  locale?: string;
+}
+
+const EN: ErrorMessages = {
+  required: label => `${label} is required`,
+  additional: label => `${label} is not a known variable`,
+  type: (label, type) => `${label} must be ${type}`,
+  enum: (label, allowed) => `${label} must be one of: ${allowed.join(", ")}`,
+  color: label => `${label} must be a valid color like #FFFFFF`,
+  image: label => `${label} must be a valid image URL`,
+  imageType: (label, allowed) => `${label} must be an image of type: ${allowed.join(", ")}`,
+  minWidth: (label, limit) => `${label} must be at least ${limit}px wide`,
+  minHeight: (label, limit) => `${label} must be at least ${limit}px high`,
+  aspectRatio: (label, limit) => `${label} must have an aspect ratio of ${limit}`,
+  url: label => `${label} must be a valid URL`,
+  font: label => `${label} must be a valid font like Inter:400,700italic`,
+  richText: label => `${label} can only link to http, https or mailto URLs`,
+  email: label => `${label} must be a valid email address`,
+  datetime: label => `${label} must be a valid date and time`,
+  date: label => `${label} must be a valid date like 2021-12-30`,
+  time: label => `${label} must be a valid time like 20:30:00`,
+  currency: label => `${label} must be a currency code like USD`,
+  country: label => `${label} must be a country code like US`,
+  phone: label => `${label} must be a phone number like +14155552671`,
+  format: (label, format) => `${label} must have the format ${format}`,
+  minimum: (label, limit) => `${label} must be greater than or equal to ${limit}`,
+  maximum: (label, limit) => `${label} must be less than or equal to ${limit}`,
+  exclusiveMinimum: (label, limit) => `${label} must be greater than ${limit}`,
+  exclusiveMaximum: (label, limit) => `${label} must be less than ${limit}`,
+  minLength: (label, limit) => `${label} must have at least ${limit} characters`,
+  maxLength: (label, limit) => `${label} must have at most ${limit} characters`,
+  pattern: label => `${label} has an invalid format`,
+  invalid: label => `${label} is invalid`,
+  types: {
+    string: "a text",
+    number: "a number",
+    integer: "an integer",
+    boolean: "true or false",
+    object: "an object",
+    array: "a list",
+    null: "empty",
+  },
+};
+
+const ES: ErrorMessages = {
+  required: label => `${label} es obligatorio`,
+  additional: label => `${label} no es una variable conocida`,
+  type: (label, type) => `${label} debe ser ${type}`,
+  enum: (label, allowed) => `${label} debe ser uno de: ${allowed.join(", ")}`,
+  color: label => `${label} debe ser un color válido como #FFFFFF`,
+  image: label => `${label} debe ser una URL de imagen válida`,
+  imageType: (label, allowed) => `${label} debe ser una imagen de tipo: ${allowed.join(", ")}`,
+  minWidth: (label, limit) => `${label} debe tener al menos ${limit}px de ancho`,
+  minHeight: (label, limit) => `${label} debe tener al menos ${limit}px de alto`,
+  aspectRatio: (label, limit) => `${label} debe tener una relación de aspecto de ${limit}`,
+  url: label => `${label} debe ser una URL válida`,
+  font: label => `${label} debe ser una fuente válida como Inter:400,700italic`,
+  richText: label => `${label} solo puede enlazar a URLs http, https o mailto`,
+  email: label => `${label} debe ser un correo electrónico válido`,
+  datetime: label => `${label} debe ser una fecha y hora válida`,
+  date: label => `${label} debe ser una fecha válida como 2021-12-30`,
+  time: label => `${label} debe ser una hora válida como 20:30:00`,
+  currency: label => `${label} debe ser un código de moneda como USD`,
+  country: label => `${label} debe ser un código de país como CL`,
+  phone: label => `${label} debe ser un número de teléfono como +56912345678`,
+  format: (label, format) => `${label} debe tener el formato ${format}`,
+  minimum: (label, limit) => `${label} debe ser mayor o igual a ${limit}`,
+  maximum: (label, limit) => `${label} debe ser menor o igual a ${limit}`,
+  exclusiveMinimum: (label, limit) => `${label} debe ser mayor a ${limit}`,
+  exclusiveMaximum: (label, limit) => `${label} debe ser menor a ${limit}`,
+  minLength: (label, limit) => `${label} debe tener al menos ${limit} caracteres`,
+  maxLength: (label, limit) => `${label} debe tener como máximo ${limit} caracteres`,
+  pattern: label => `${label} tiene un formato inválido`,
+  invalid: label => `${label} es inválido`,
+  types: {
+    string: "un texto",
+    number: "un número",
+    integer: "un número entero",
+    boolean: "verdadero o falso",
+    object: "un objeto",
+    array: "una lista",
+    null: "vacío",
+  },
+};
+
+function unescape(segment: string): string {
+  return segment.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+/**
+ * Turn Ajv `errors` from `Validator.parse` into friendly messages grouped by variable.
+ * @example
+ * import { Variable as V, Validator, ErrorFormatter } from "@flyyer/variables";
+ * export const schema = V.Object({
+ *   color: V.ColorHex({ title: "Background color" }),
+ * });
+ * const validator = new Validator(schema);
+ * const formatter = new ErrorFormatter(schema, { locale: "es-CL" });
+ * const { errors } = validator.parse({ color: "red" });
+ * formatter.format(errors);
+ * // { color: { key: "color", label: "Background color", messages: ["Background color debe ser un color válido como #FFFFFF"] } }
+ */
+export class ErrorFormatter {
+  /** Registered message catalogs, use `ErrorFormatter.register` to add more. */
+  public static LOCALES: { [locale: string]: ErrorMessages } = { en: EN, es: ES };
+  public static DEFAULT_LOCALE = "en";
+
+  /** Own catalog of `LOCALES`, ignoring inherited keys like `constructor` */
+  private static catalog(locale: string): ErrorMessages | undefined {
+    const locales = ErrorFormatter.LOCALES;
+    return Object.prototype.hasOwnProperty.call(locales, locale) ? locales[locale] : undefined;
+  }
+
+  /**
+   * Add or override a locale. Missing messages fall back to the default locale.
+   */
+  public static register(locale: string, messages: Partial<ErrorMessages>): void {
+    const base = ErrorFormatter.LOCALES[ErrorFormatter.DEFAULT_LOCALE] as ErrorMessages;
+    const current = ErrorFormatter.catalog(locale) || base;
+    ErrorFormatter.LOCALES[locale] = {
+      ...current,
+      ...messages,
+      types: { ...current.types, ...messages.types },
+    };
+  }
+
+  /**
+   * Resolve `es-CL` to `es-CL`, `es` or the default locale (in that order).
+   */
+  public static resolve(locale: string = ErrorFormatter.DEFAULT_LOCALE): ErrorMessages {
+    const parts = locale.split("-");
+    for (let i = parts.length; i > 0; i--) {
+      const candidate = parts.slice(0, i).join("-");
+      const found = ErrorFormatter.catalog(candidate) || ErrorFormatter.catalog(candidate.toLowerCase());
+      if (found) return found;
+    }
+    return ErrorFormatter.LOCALES[ErrorFormatter.DEFAULT_LOCALE] as ErrorMessages;
+  }
+
+  public readonly messages: ErrorMessages;
+
+  public constructor(public readonly schema: TSchema, options: ErrorFormatterOptions = {}) {
+    this.messages = ErrorFormatter.resolve(options.locale);
+  }
+
+  /**
+   * Group errors by top-level variable key. Returns an empty object when there are no errors.
+   */
+  public format(errors: ErrorObject[] | null | undefined): { [key: string]: VariableErrors } {
+    const grouped: { [key: string]: VariableErrors } = {};
+    for (const error of errors || []) {
+      // `V.When` rules also report the failed `then` keyword (as `required`)
+      if (error.keyword === "if") continue;
+      const segments = error.instancePath
+        .split("/")
+        .filter(Boolean)
+        .map(unescape);
+      const missing = error.params["missingProperty"] || error.params["additionalProperty"];
+      if (typeof missing === "string") segments.push(missing);
+      const key = segments[0] || "";
+      const property = this.find(segments);
+      const label = this.label(segments, property);
+      const message = this.message(error, label, property);
+      const root = segments.slice(0, 1);
+      const existing = Object.prototype.hasOwnProperty.call(grouped, key) ? grouped[key] : undefined;
+      const group = existing || { key, label: this.label(root, this.find(root)), messages: [] };
+      if (!group.messages.includes(message)) group.messages.push(message);
+      grouped[key] = group;
+    }
+    return grouped;
+  }
+
+  protected find(segments: string[]): any {
+    let current: any = this.schema;
+    for (const segment of segments) {
+      if (!current) return undefined;
+      if (current["properties"]) {
+        const properties = current["properties"];
+        current = Object.prototype.hasOwnProperty.call(properties, segment) ? properties[segment] : undefined;
+      } else if (current["items"] && /^\d+$/.test(segment)) {
+        current = current["items"];
+      } else {
+        return undefined;
+      }
+    }
+    return current;
+  }
+
+  protected label(segments: string[], property: any): string {
+    if (property && typeof property["title"] === "string") return property["title"];
+    const key = segments.filter(segment => !/^\d+$/.test(segment)).pop();
+    return key ? humanize(key) : "";
+  }
+
+  protected message(error: ErrorObject, label: string, property: any): string {
+    const messages = this.messages;
+    const params = error.params;
+    switch (error.keyword) {
+      case "required":
+        return messages.required(label);
+      case "additionalProperties":
+        return messages.additional(label);
+      case "type": {
+        const type = String(params["type"])
+          .split(",")
+          .map(name => messages.types[name] || name)
+          .join(" / ");
+        return messages.type(label, type);
+      }
+      case "enum": {
+        const allowed: unknown[] = (property && property["enum"]) || params["allowedValues"] || [];
+        return messages.enum(label, allowed.map(String));
+      }
+      case "format": {
+        if (property && Is.Image(property)) return messages.image(label);
+        switch (params["format"]) {
+          case "color-hex":
+          case "color":
+            return messages.color(label);
+          case "uri-reference":
+          case "uri":
+            return messages.url(label);
+          case "email":
+            return messages.email(label);
+          case "date-time":
+            return messages.datetime(label);
+          case "date":
+            return messages.date(label);
+          case "time":
+            return messages.time(label);
+          case "currency":
+            return messages.currency(label);
+          case "country":
+            return messages.country(label);
+          case "phone":
+            return messages.phone(label);
+          default:
+            return messages.format(label, String(params["format"]));
+        }
+      }
+      case "minimum":
+        return messages.minimum(label, params["limit"]);
+      case "maximum":
+        return messages.maximum(label, params["limit"]);
+      case "exclusiveMinimum":
+        return messages.exclusiveMinimum(label, params["limit"]);
+      case "exclusiveMaximum":
+        return messages.exclusiveMaximum(label, params["limit"]);
+      case "minLength":
+        return messages.minLength(label, params["limit"]);
+      case "maxLength":
+        return messages.maxLength(label, params["limit"]);
+      case "pattern":
+        return messages.pattern(label);
+      case "colorSyntaxes":
+        return messages.color(label);
+      case "image":
+        return messages.image(label);
+      case "font":
+        return messages.font(label);
+      case "richText":
+        return messages.richText(label);
+      case "mimeTypes":
+      case "extensions": {
+        const allowed: string[] = (property && (property["extensions"] || property["mimeTypes"])) || [];
+        return messages.imageType(label, allowed);
+      }
+      case "minWidth":
+        return messages.minWidth(label, params["limit"]);
+      case "minHeight":
+        return messages.minHeight(label, params["limit"]);
+      case "aspectRatio":
+        return messages.aspectRatio(label, Math.round(params["limit"] * 100) / 100);
+      default:
+        return messages.invalid(label);
+    }
+  }
+}
@@ -0,0 +1,214 @@
+import {
+  ObjectOptions,
+  OptionalModifier,
+  ReadonlyModifier,
+  ReadonlyOptionalModifier,
+  TObject,
+  TOptional,
+  TProperties,
+  TReadonly,
+  TReadonlyOptional,
+} from "@sinclair/typebox";
+
+import { humanize } from "./form";
+import { JoinKey } from "./keys";
+
+import { Is, Static, TAddress, TFont, TPriceObject, Variable } from "./index";
+
+/**
+ * How nested keys are joined:
+ * - `"camelCase"` (default): `title.color` becomes `titleColor`, as recommended for Flyyer.io dashboard.
+ * - `"dot"`: `title.color`
+ * - `"bracket"`: `title[color]`, same as the query-strings of `QueryCodec`.
+ */
+export type FlattenConvention = "camelCase" | "dot" | "bracket";
+
+export interface FlattenOptions<C extends FlattenConvention = FlattenConvention> {
+  convention?: C;
+}
+
+type UnionToIntersection<U> = (U extends any ? (value: U) => void : never) extends (value: infer I) => void ? I : never;
+
+/** Properties of optional objects become optional too */
+type OptionalProperties<T extends TProperties> = {
+  [K in keyof T]: T[K] extends TReadonlyOptional<infer U>
+    ? TReadonlyOptional<U>
+    : T[K] extends TReadonly<infer U>
+    ? TReadonlyOptional<U>
+    : T[K] extends TOptional<infer U>
+    ? TOptional<U>
+    : TOptional<T[K]>;
+};
+
+/** Objects handled by Flyyer.io UI are not flattened */
+type IsNested<T> = T extends TFont | TPriceObject | TAddress ? false : T extends TObject<any> ? true : false;
+
+type FlatEntries<T extends TProperties, C extends FlattenConvention, P extends string> = {
+  [K in keyof T & string]: IsNested<T[K]> extends true
+    ? T[K] extends TObject<infer U>
+      ? T[K] extends TOptional<any>
+        ? FlatEntries<OptionalProperties<U>, C, JoinKey<P, K, C>>
+        : FlatEntries<U, C, JoinKey<P, K, C>>
+      : never
+    : { [key in JoinKey<P, K, C>]: T[K] };
+}[keyof T & string];
+
+/** Properties of `FlatAdapter.schema`, keys follow the `FlattenConvention`. */
+export type FlatProperties<T extends TProperties, C extends FlattenConvention = "camelCase"> = UnionToIntersection<
+  FlatEntries<T, C, "">
+> extends infer I
+  ? { [K in keyof I]: I[K] } extends infer R
+    ? R extends TProperties
+      ? R
+      : never
+    : never
+  : never;
+
+interface Leaf {
+  path: string[];
+  key: string;
+}
+
+function joinKey(path: string[], convention: FlattenConvention): string {
+  const [head = "", ...rest] = path;
+  switch (convention) {
+    case "dot":
+      return path.join(".");
+    case "bracket":
+      return head + rest.map(segment => `[${segment}]`).join("");
+    default:
+      return head + rest.map(segment => segment.charAt(0).toUpperCase() + segment.slice(1)).join("");
+  }
+}
+
+function isNested(property: any): boolean {
+  return (
+    property["type"] === "object" &&
+    Boolean(property["properties"]) &&
+    // `null` can't be split into properties
+    property["nullable"] !== true &&
+    !Is.LocalizedString(property) &&
+    !Is.FontDescriptor(property) &&
+    !Is.Price(property) &&
+    !Is.Address(property)
+  );
+}
+
+function optional(property: any): any {
+  const modifier = property["modifier"];
+  if (modifier === OptionalModifier || modifier === ReadonlyOptionalModifier) return property;
+  return { ...property, modifier: modifier === ReadonlyModifier ? ReadonlyOptionalModifier : OptionalModifier };
+}
+
+/**
+ * Turn a nested `V.Object` into the flat schema recommended for Flyyer.io dashboard and convert variables between both
+ * shapes. Templates export `adapter.schema` and use `adapter.unflatten` to work with nested variables.
+ *
+ * Properties of optional objects become optional, defaults of objects are moved to their properties and `V.When`
+ * conditions are updated with the flat keys. Nullable objects, localized texts, font descriptors, prices and addresses
+ * are kept as is. Throws if two keys are flattened to the same one, like `titleColor` and `title.color`.
+ * @example
+ * import { Variable as V, FlatAdapter, Validator } from "@flyyer/variables";
+ * const nested = V.Object({
+ *   title: V.Object({ text: V.String(), color: V.ColorHex({ default: "#FFFFFF" }) }),
+ * });
+ * const adapter = new FlatAdapter(nested);
+ * export const schema = adapter.schema; // V.Object({ titleText: V.String(), titleColor: V.ColorHex({ default: "#FFFFFF" }) })
+ *
+ * const { data } = new Validator(schema).parse(variables);
+ * const { title } = adapter.unflatten(data); // { text: string, color: string }
+ */
+export class FlatAdapter<T extends TProperties, C extends FlattenConvention = "camelCase"> {
+  /** Flat schema, export this one as `schema` for Flyyer.io */
+  public readonly schema: TObject<FlatProperties<T, C>>;
+  public readonly convention: FlattenConvention;
+  /** Paths of the properties of `schema`, in the same order */
+  protected readonly leaves: Leaf[] = [];
+
+  public constructor(public readonly nested: TObject<T>, options: FlattenOptions<C> = {}) {
+    this.convention = options.convention || "camelCase";
+    const properties: TProperties = {};
+    const walk = (object: any, path: string[], parentRequired: boolean, defaults: any) => {
+      const required: string[] = object["required"] || [];
+      const keys: { [key: string]: string } = {};
+      Object.keys(object["properties"]).forEach(key => (keys[key] = joinKey([...path, key], this.convention)));
+      for (const key of Object.keys(object["properties"])) {
+        let property = object["properties"][key];
+        const fallback = defaults && typeof defaults === "object" ? defaults[key] : undefined;
+        if (fallback !== undefined && property["default"] === undefined) property = { ...property, default: fallback };
+        if (!parentRequired || !required.includes(key)) property = optional(property);
+        if (isNested(property)) {
+          walk(property, [...path, key], parentRequired && required.includes(key), property["default"]);
+          continue;
+        }
+        const flat = keys[key] as string;
+        if (path.length > 0 && property["title"] === undefined) {
+          property = { ...property, title: humanize([...path, key].join("-")) };
+        }
+        const when = property["when"];
+        if (when && keys[when.key]) property = { ...property, when: { ...when, key: keys[when.key] } };
+        const collision = this.leaves.find(leaf => leaf.key === flat);
+        if (collision) {
+          const paths = [collision.path, [...path, key]].map(segments => `"${segments.join(".")}"`).join(" and ");
+          throw new Error(`Keys ${paths} are both flattened to "${flat}"`);
+        }
+        properties[flat] = property;
+        this.leaves.push({ path: [...path, key], key: flat });
+      }
+    };
+    walk(nested, [], true, undefined);
+    // Keep `title`, `description`, `V.Versioned` settings, etc.
+    const rest: { [key: string]: unknown } = { ...nested };
+    ["kind", "type", "properties", "required", "allOf"].forEach(key => delete rest[key]);
+    this.schema = Variable.Object(properties, rest as ObjectOptions) as any;
+  }
+
+  /**
+   * Nested variables from flat ones (like `data` of `Validator.parse` with `adapter.schema`). Unknown keys are kept.
+   */
+  public unflatten(variables: Static<TObject<FlatProperties<T, C>>>): Static<TObject<T>> {
+    const input = { ...(variables as { [key: string]: unknown }) };
+    const output: { [key: string]: any } = {};
+    for (const { path, key } of this.leaves) {
+      if (!(key in input)) continue;
+      let target = output;
+      for (const segment of path.slice(0, -1)) {
+        target[segment] = target[segment] || {};
+        target = target[segment];
+      }
+      target[path[path.length - 1] as string] = input[key];
+      delete input[key];
+    }
+    // Required objects without values
+    const fill = (object: any, target: { [key: string]: any }) => {
+      const required: string[] = object["required"] || [];
+      for (const key of Object.keys(object["properties"])) {
+        const property = object["properties"][key];
+        if (!isNested(property)) continue;
+        if (target[key] === undefined && required.includes(key)) target[key] = {};
+        if (target[key] !== undefined) fill(property, target[key]);
+      }
+    };
+    fill(this.nested, output);
+    return { ...input, ...output } as any;
+  }
+
+  /**
+   * Flat variables from nested ones, the inverse of `unflatten`. Unknown keys are kept.
+   */
+  public flatten(variables: Static<TObject<T>>): Static<TObject<FlatProperties<T, C>>> {
+    const input = variables as { [key: string]: any };
+    const output: { [key: string]: unknown } = {};
+    const known = new Set<string>();
+    for (const { path, key } of this.leaves) {
+      known.add(path[0] as string);
+      let value: any = input;
+      for (const segment of path) value = value && typeof value === "object" ? value[segment] : undefined;
+      if (value !== undefined) output[key] = value;
+    }
+    for (const key of Object.keys(input)) {
+      if (!known.has(key)) output[key] = input[key];
+    }
+    return output as any;
+  }
+}
@@ -0,0 +1,145 @@
+export const FONT_WEIGHTS = [100, 200, 300, 400, 500, 600, 700, 800, 900] as const;
+export type FontWeight = typeof FONT_WEIGHTS[number];
+
+export const FONT_STYLES = ["normal", "italic"] as const;
+export type FontStyle = typeof FONT_STYLES[number];
+
+/** Bundled catalog of popular Google Fonts families, use with `V.Font({ families: true })` */
+// prettier-ignore
+export const FONT_FAMILIES = [
+  "Abril Fatface", "Alegreya", "Anton", "Archivo", "Arimo", "Barlow", "Bebas Neue", "Bitter", "Cabin", "Caveat",
+  "Cormorant Garamond", "Crimson Text", "DM Sans", "DM Serif Display", "Dancing Script", "EB Garamond", "Fira Code",
+  "Fira Sans", "Heebo", "IBM Plex Mono", "IBM Plex Sans", "IBM Plex Serif", "Inconsolata", "Inter", "Josefin Sans",
+  "Karla", "Lato", "Libre Baskerville", "Libre Franklin", "Lobster", "Lora", "Manrope", "Merriweather", "Montserrat",
+  "Mukta", "Mulish", "Noto Sans", "Noto Serif", "Nunito", "Nunito Sans", "Open Sans", "Oswald", "Outfit", "Pacifico",
+  "Playfair Display", "Plus Jakarta Sans", "Poppins", "PT Sans", "PT Serif", "Quicksand", "Raleway", "Roboto",
+  "Roboto Condensed", "Roboto Mono", "Roboto Slab", "Rubik", "Source Code Pro", "Source Sans 3", "Space Grotesk",
+  "Space Mono", "Titillium Web", "Ubuntu", "Work Sans",
+] as const;
+
+/** Normalized value of `V.Font({ descriptor: true })` */
+export interface FontDescriptor {
+  family: string;
+  /** Sorted and without duplicates */
+  weights: FontWeight[];
+  /** In the order of `FONT_STYLES` */
+  styles: FontStyle[];
+  /** Generic family or stack used while the font loads, like `"sans-serif"` */
+  fallback: string;
+}
+
+/** Settings stored in the `font` keyword of `V.Font` schemas. */
+export interface FontConstraints {
+  /** Accept descriptors like `"Inter:400,700italic"` or `{ family, weights, styles, fallback }` and normalize them to `FontDescriptor`. */
+  descriptor?: boolean;
+  /** Allowed weights */
+  weights?: FontWeight[];
+  /** Allowed styles */
+  styles?: FontStyle[];
+  /** Default `fallback` of descriptors. Defaults to `"sans-serif"` */
+  fallback?: string;
+  /** Allowed families: `true` for `FONT_FAMILIES` or a custom list. Matched ignoring case. */
+  families?: boolean | string[];
+}
+
+const DEFAULT_WEIGHT: FontWeight = 400;
+const DEFAULT_FALLBACK = "sans-serif";
+
+/** Variants of Google Fonts like `400`, `700italic`, `700i`, `italic`, `regular` or `bold` */
+const REGEX_VARIANT = /^(\d{3}|regular|bold)?(italic|i)?$/;
+
+/** Family with the casing of the catalog, `null` when it is not in the catalog. */
+function findFamily(family: string, constraints: FontConstraints): string | null {
+  const { families } = constraints;
+  if (!families) return family;
+  const catalog: readonly string[] = families === true ? FONT_FAMILIES : families;
+  const found = catalog.find(item => item.toLowerCase() === family.toLowerCase());
+  return found === undefined ? null : found;
+}
+
+function isWeight(value: unknown): value is FontWeight {
+  return FONT_WEIGHTS.includes(value as FontWeight);
+}
+
+function isStyle(value: unknown): value is FontStyle {
+  return FONT_STYLES.includes(value as FontStyle);
+}
+
+function parseVariants(text: string): { weights: unknown[]; styles: unknown[] } | null {
+  const weights: unknown[] = [];
+  const styles: unknown[] = [];
+  for (const variant of text.split(",").map(item => item.trim().toLowerCase())) {
+    const match = REGEX_VARIANT.exec(variant);
+    if (!variant || !match) return null;
+    const [, weight, italic] = match;
+    weights.push(weight === "bold" ? 700 : weight && weight !== "regular" ? Number(weight) : DEFAULT_WEIGHT);
+    styles.push(italic ? "italic" : "normal");
+  }
+  return { weights, styles };
+}
+
+/**
+ * Parse a font descriptor like `"Inter:400,700italic"` (Google Fonts syntax) or `{ family, weights, styles, fallback }`
+ * and check it against the allowed weights, styles and families. Returns `null` when it is invalid.
+ *
+ * Missing weights and styles default to `400` and `"normal"` (or the first allowed one).
+ * @example
+ * import { parseFont } from "@flyyer/variables";
+ * parseFont("Inter:400,700italic");
+ * // { family: "Inter", weights: [400, 700], styles: ["normal", "italic"], fallback: "sans-serif" }
+ */
+export function parseFont(value: unknown, constraints: FontConstraints = {}): FontDescriptor | null {
+  let family: unknown;
+  let weights: unknown[] = [];
+  let styles: unknown[] = [];
+  let fallback: unknown = constraints.fallback || DEFAULT_FALLBACK;
+  if (typeof value === "string") {
+    const index = value.indexOf(":");
+    family = index === -1 ? value : value.slice(0, index);
+    if (index !== -1) {
+      const variants = parseVariants(value.slice(index + 1));
+      if (!variants) return null;
+      ({ weights, styles } = variants);
+    }
+  } else if (value && typeof value === "object" && !Array.isArray(value)) {
+    const input = value as { [key: string]: unknown };
+    family = input["family"];
+    if (input["weights"] !== undefined) weights = Array.isArray(input["weights"]) ? input["weights"] : [NaN];
+    if (input["styles"] !== undefined) styles = Array.isArray(input["styles"]) ? input["styles"] : [null];
+    if (input["fallback"] !== undefined) fallback = input["fallback"];
+  }
+  if (typeof family !== "string" || !family.trim() || typeof fallback !== "string") return null;
+  const name = findFamily(family.trim(), constraints);
+  if (!name) return null;
+
+  const allowedWeights: readonly FontWeight[] = constraints.weights || FONT_WEIGHTS;
+  const allowedStyles: readonly FontStyle[] = constraints.styles || FONT_STYLES;
+  weights = weights.map(weight => (typeof weight === "string" ? Number(weight) : weight));
+  if (!weights.every(weight => isWeight(weight) && allowedWeights.includes(weight))) return null;
+  if (!styles.every(style => isStyle(style) && allowedStyles.includes(style))) return null;
+  if (weights.length === 0) {
+    weights = [allowedWeights.includes(DEFAULT_WEIGHT) ? DEFAULT_WEIGHT : allowedWeights[0]];
+  }
+  if (styles.length === 0) styles = [allowedStyles[0]];
+
+  return {
+    family: name,
+    weights: FONT_WEIGHTS.filter(weight => weights.includes(weight)),
+    styles: FONT_STYLES.filter(style => styles.includes(style)),
+    fallback,
+  };
+}
+
+/**
+ * Google Fonts descriptor of every combination of weights and styles, the inverse of `parseFont`.
+ * @example
+ * import { formatFont } from "@flyyer/variables";
+ * formatFont({ family: "Inter", weights: [400, 700], styles: ["normal", "italic"], fallback: "sans-serif" });
+ * // "Inter:400,700,400italic,700italic"
+ */
+export function formatFont(font: FontDescriptor): string {
+  const variants = ([] as string[]).concat(
+    ...font.styles.map(style => font.weights.map(weight => (style === "italic" ? `${weight}italic` : String(weight)))),
+  );
+  return variants.length > 0 ? `${font.family}:${variants.join(",")}` : font.family;
+}
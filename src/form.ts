@@ -0,0 +1,119 @@
+import { TSchema } from "@sinclair/typebox";
+
+import { WhenCondition } from "./conditional";
+import { RICH_TEXT_MARKS, RichTextMark } from "./richtext";
+
+import { Is, WidgetKind } from "./index";
+
+export interface FieldOption {
+  value: string | number;
+  label: string;
+}
+
+export interface FieldConstraints {
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface FieldDescriptor {
+  /** Property key on the schema */
+  key: string;
+  /** `title` of the property or the humanized `key` */
+  label: string;
+  description?: string;
+  kind: WidgetKind;
+  /** `false` for properties created with `V.Optional` */
+  required: boolean;
+  /** `true` for properties created with `V.Nullable` */
+  nullable: boolean;
+  default?: unknown;
+  examples: unknown[];
+  /** Only for `V.Enum` (labeled by value) and `V.EnumKeys` (labeled by key) */
+  options?: FieldOption[];
+  constraints: FieldConstraints;
+  /** Only for nested objects */
+  fields?: FieldDescriptor[];
+  /** Only for `V.RichText`, the allowed marks */
+  marks?: RichTextMark[];
+  /** Only for `V.When`, the field applies when the variable of `key` is one of `values` (see `isVisible`) */
+  when?: WhenCondition;
+}
+
+const CONSTRAINT_KEYS: (keyof FieldConstraints)[] = [
+  "minimum",
+  "maximum",
+  "exclusiveMinimum",
+  "exclusiveMaximum",
+  "multipleOf",
+  "minLength",
+  "maxLength",
+  "minItems",
+  "maxItems",
+];
+
+/**
+ * Turn `titleColor`, `title_color` or `title-color` into `Title color`.
+ */
+export function humanize(key: string): string {
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/[_-]+/g, " ")
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Create an ordered list of field descriptors to render a form for the variables of a `V.Object` schema, same as Flyyer.io dashboard.
+ * @example
+ * import { Variable as V, formFields } from "@flyyer/variables";
+ * export const schema = V.Object({
+ *   title: V.String({ default: "Hello" }),
+ *   titleColor: V.Optional(V.ColorHex()),
+ * });
+ * formFields(schema);
+ * // [
+ * //   { key: "title", label: "Title", kind: "text", required: true, default: "Hello", ... },
+ * //   { key: "titleColor", label: "Title color", kind: "color", required: false, ... },
+ * // ]
+ */
+export function formFields(schema: TSchema): FieldDescriptor[] {
+  const describeField = (key: string, property: any, required: boolean): FieldDescriptor => {
+    const kind = Is.kindOf(property);
+    const constraints: FieldConstraints = {};
+    for (const name of CONSTRAINT_KEYS) {
+      if (typeof property[name] === "number") constraints[name] = property[name];
+    }
+    const field: FieldDescriptor = {
+      key,
+      label: typeof property["title"] === "string" ? property["title"] : humanize(key),
+      kind,
+      required,
+      nullable: Is.Nullable(property),
+      examples: Array.isArray(property["examples"]) ? property["examples"] : [],
+      constraints,
+    };
+    if (typeof property["description"] === "string") field.description = property["description"];
+    if (property["default"] !== undefined) field.default = property["default"];
+    if (kind === "enum" || kind === "enum-keys") {
+      const values: (string | number)[] = property["enum"];
+      field.options = values.map(value => ({ value, label: String(value) }));
+    }
+    if (kind === "richtext") field.marks = (property["richText"] || {})["marks"] || [...RICH_TEXT_MARKS];
+    if (Is.Conditional(property)) field.when = property["when"];
+    if (kind === "object" || kind === "address") {
+      field.fields = formFields(property);
+    }
+    return field;
+  };
+  const properties: { [key: string]: TSchema } = (schema as any)["properties"] || {};
+  const required: string[] = (schema as any)["required"] || [];
+  return Object.keys(properties).map(key => describeField(key, properties[key], required.includes(key)));
+}
@@ -0,0 +1,373 @@
+import { TSchema } from "@sinclair/typebox";
+import { ErrorObject } from "ajv";
+
+import { Is } from "./index";
+
+export interface ImageConstraints {
+  /** Allowed MIME types like `["image/png", "image/jpeg"]` */
+  mimeTypes?: string[];
+  /** Allowed file extensions like `["png", "jpg"]` (without dot) */
+  extensions?: string[];
+  /** Minimum width in pixels */
+  minWidth?: number;
+  /** Minimum height in pixels */
+  minHeight?: number;
+  /** Expected `width / height` like `1200 / 630`, 1% of difference is accepted. */
+  aspectRatio?: number;
+}
+
+export interface ImageInfo {
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+/** Returns the contents of an image from the value of a `V.Image` variable. */
+export type ImageLoader = (source: string) => Promise<Uint8Array>;
+
+export interface InspectImageOptions {
+  /** Needed to inspect paths and URLs (like `createFileLoader`), only `Uint8Array` sources work without it. */
+  loader?: ImageLoader;
+}
+
+export interface ImageInspection {
+  /** `null` when the image could not be loaded or read */
+  readonly info: ImageInfo | null;
+  readonly isValid: boolean;
+  readonly errors: ErrorObject[];
+}
+
+/** Non-standard keywords of `V.Image` */
+export const IMAGE_KEYWORDS = ["mimeTypes", "extensions", "minWidth", "minHeight", "aspectRatio"] as const;
+
+const EXTENSIONS: { [extension: string]: string } = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+  svg: "image/svg+xml",
+  avif: "image/avif",
+};
+
+const ASPECT_RATIO_TOLERANCE = 0.01;
+/** Bytes read at once when looking for the `<svg>` tag, also the maximum length of the tag */
+const SVG_CHUNK = 16384;
+
+/** Lowercase extension of the path of an URL (or file path) without dot */
+function extensionOf(source: string): string | undefined {
+  const path = source.split(/[?#]/)[0] || "";
+  const match = /\.([a-z0-9]+)$/i.exec(path);
+  return match && match[1] ? match[1].toLowerCase() : undefined;
+}
+
+/**
+ * Check the type of an image against `mimeTypes` and `extensions` of a `V.Image` schema. Allowed when it matches any
+ * of both lists or when none is set.
+ */
+export function acceptsImageType(constraints: ImageConstraints, type: { mimeType?: string; extension?: string }) {
+  const { mimeTypes, extensions } = constraints;
+  if (!mimeTypes && !extensions) return true;
+  const extension = type.extension && type.extension.toLowerCase();
+  const mimeType = type.mimeType || (extension && EXTENSIONS[extension]);
+  if (mimeType && mimeTypes && mimeTypes.includes(mimeType)) return true;
+  return (extensions || []).some(item => {
+    const allowed = item.toLowerCase();
+    return allowed === extension || (mimeType !== undefined && EXTENSIONS[allowed] === mimeType);
+  });
+}
+
+/**
+ * MIME types allowed by `mimeTypes` and `extensions` of a `V.Image` schema, `undefined` when any type is allowed or an
+ * extension is unknown.
+ */
+export function imageMimeTypes(constraints: ImageConstraints): string[] | undefined {
+  const { mimeTypes = [], extensions = [] } = constraints;
+  if (mimeTypes.length === 0 && extensions.length === 0) return undefined;
+  const types = [...mimeTypes];
+  for (const extension of extensions) {
+    const mimeType = EXTENSIONS[extension.toLowerCase()];
+    if (!mimeType) return undefined;
+    if (!types.includes(mimeType)) types.push(mimeType);
+  }
+  return types;
+}
+
+/**
+ * Validation of `mimeTypes` and `extensions` by `Validator`. Only URLs with an extension can be checked, use
+ * `inspectImage` to check the contents.
+ */
+export function acceptsImageURL(constraints: ImageConstraints, url: string): boolean {
+  const extension = extensionOf(url);
+  return !extension || acceptsImageType(constraints, { extension });
+}
+
+function uint16BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] || 0) << 8) | (bytes[offset + 1] || 0);
+}
+function uint16LE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] || 0) | ((bytes[offset + 1] || 0) << 8);
+}
+function uint24LE(bytes: Uint8Array, offset: number): number {
+  return uint16LE(bytes, offset) | ((bytes[offset + 2] || 0) << 16);
+}
+function uint32BE(bytes: Uint8Array, offset: number): number {
+  return uint16BE(bytes, offset) * 0x10000 + uint16BE(bytes, offset + 2);
+}
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...Array.from(bytes.subarray(start, end)));
+}
+
+function readJPEG(bytes: Uint8Array): ImageInfo | null {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1] || 0;
+    if (marker === 0xff) {
+      // Fill byte
+      offset += 1;
+    } else if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      // Markers without length
+      offset += 2;
+    } else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      // Start of frame
+      return { mimeType: "image/jpeg", height: uint16BE(bytes, offset + 5), width: uint16BE(bytes, offset + 7) };
+    } else {
+      offset += 2 + uint16BE(bytes, offset + 2);
+    }
+  }
+  return null;
+}
+
+function readWebP(bytes: Uint8Array): ImageInfo | null {
+  const mimeType = "image/webp";
+  switch (ascii(bytes, 12, 16)) {
+    case "VP8 ":
+      return { mimeType, width: uint16LE(bytes, 26) & 0x3fff, height: uint16LE(bytes, 28) & 0x3fff };
+    case "VP8L": {
+      const [b0 = 0, b1 = 0, b2 = 0, b3 = 0] = Array.from(bytes.subarray(21, 25));
+      const width = 1 + (((b1 & 0x3f) << 8) | b0);
+      const height = 1 + (((b3 & 0xf) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6));
+      return { mimeType, width, height };
+    }
+    case "VP8X":
+      return { mimeType, width: 1 + uint24LE(bytes, 24), height: 1 + uint24LE(bytes, 27) };
+    default:
+      return null;
+  }
+}
+
+/** `<svg>` tag anywhere in the file (after comments, doctype, etc.) */
+function findSVGTag(bytes: Uint8Array): string | undefined {
+  // Chunks overlap so the start of the tag is never split
+  for (let start = 0; start < bytes.length; start += SVG_CHUNK - 5) {
+    const index = ascii(bytes, start, Math.min(bytes.length, start + SVG_CHUNK)).search(/<svg[\s>/]/i);
+    if (index !== -1) {
+      const text = ascii(bytes, start + index, Math.min(bytes.length, start + index + SVG_CHUNK));
+      return (/^<svg\b[^>]*>/i.exec(text) || [])[0];
+    }
+  }
+  return undefined;
+}
+
+function readSVG(bytes: Uint8Array): ImageInfo | null {
+  const tag = findSVGTag(bytes);
+  if (!tag) return null;
+  const attribute = (name: string) => {
+    const match = new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, "i").exec(tag);
+    return match ? match[1] : undefined;
+  };
+  const pixels = (value: string | undefined) => {
+    const match = value && /^\s*([\d.]+)\s*(px)?\s*$/.exec(value);
+    return match ? Number(match[1]) : NaN;
+  };
+  const width = pixels(attribute("width"));
+  const height = pixels(attribute("height"));
+  if (width > 0 && height > 0) return { mimeType: "image/svg+xml", width, height };
+  const viewBox = (attribute("viewBox") || "")
+    .trim()
+    .split(/[\s,]+/)
+    .map(Number);
+  const [, , boxWidth, boxHeight] = viewBox;
+  if (viewBox.length === 4 && boxWidth && boxHeight && boxWidth > 0 && boxHeight > 0) {
+    return { mimeType: "image/svg+xml", width: boxWidth, height: boxHeight };
+  }
+  return null;
+}
+
+/**
+ * Read the type and dimensions from the headers of a PNG, JPEG, WebP, GIF or SVG image (SVG dimensions come from
+ * `width` and `height` in pixels or `viewBox` of the `<svg>` tag, which can't be longer than 16 KB). Returns `null` for
+ * other formats.
+ */
+export function readImageInfo(bytes: Uint8Array): ImageInfo | null {
+  if (ascii(bytes, 1, 4) === "PNG" && bytes[0] === 0x89) {
+    return { mimeType: "image/png", width: uint32BE(bytes, 16), height: uint32BE(bytes, 20) };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return readJPEG(bytes);
+  }
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") {
+    return readWebP(bytes);
+  }
+  if (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a") {
+    return { mimeType: "image/gif", width: uint16LE(bytes, 6), height: uint16LE(bytes, 8) };
+  }
+  return readSVG(bytes);
+}
+
+/** Used without `loader`, values of variables can't be read from the file system unless allowed. */
+const missingLoader: ImageLoader = async () => {
+  throw new Error("Missing loader");
+};
+
+/**
+ * `ImageLoader` of local files inside `root`, like the public directory of the templates. Paths are relative to `root`
+ * (even with a leading `/`) and can't leave it with `..`, URLs are rejected. Errors don't include the paths.
+ * @example
+ * import { promises } from "fs";
+ * import { createFileLoader, inspectImages } from "@flyyer/variables";
+ * const loader = createFileLoader("/srv/templates/public", promises.readFile);
+ * const { isValid, errors } = await inspectImages(schema, data, { loader });
+ */
+export function createFileLoader(root: string, readFile: (path: string) => Promise<Uint8Array>): ImageLoader {
+  return async source => {
+    if (/^[a-z][a-z\d+.-]*:/i.test(source)) throw new Error("Only local files can be loaded");
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(source.split(/[?#]/)[0] || "");
+    } catch (e) {
+      throw new Error("Invalid path");
+    }
+    const segments: string[] = [];
+    for (const segment of decoded.split(/[\\/]/)) {
+      if (segment === "..") {
+        if (segments.pop() === undefined) throw new Error("Path outside of the root directory");
+      } else if (segment.includes("\0")) {
+        throw new Error("Invalid path");
+      } else if (segment && segment !== ".") {
+        segments.push(segment);
+      }
+    }
+    if (segments.length === 0) throw new Error("Invalid path");
+    try {
+      return await readFile([root.replace(/[\\/]+$/, ""), ...segments].join("/"));
+    } catch (e) {
+      throw new Error("File could not be read");
+    }
+  };
+}
+
+function check(constraints: ImageConstraints, info: ImageInfo, instancePath: string, schemaPath: string) {
+  const errors: ErrorObject[] = [];
+  const error = (keyword: string, params: { [key: string]: unknown }, message: string) => {
+    errors.push({ keyword, instancePath, schemaPath: `${schemaPath}/${keyword}`, params, message });
+  };
+  const { mimeTypes, extensions, minWidth, minHeight, aspectRatio } = constraints;
+  if (!acceptsImageType(constraints, { mimeType: info.mimeType })) {
+    const keyword = mimeTypes ? "mimeTypes" : "extensions";
+    const allowed = mimeTypes || extensions || [];
+    error(keyword, { mimeType: info.mimeType, allowedValues: allowed }, `must be one of: ${allowed.join(", ")}`);
+  }
+  if (minWidth !== undefined && info.width < minWidth) {
+    error("minWidth", { limit: minWidth, width: info.width }, `must be at least ${minWidth}px wide`);
+  }
+  if (minHeight !== undefined && info.height < minHeight) {
+    error("minHeight", { limit: minHeight, height: info.height }, `must be at least ${minHeight}px high`);
+  }
+  if (aspectRatio !== undefined) {
+    const ratio = info.width / info.height;
+    if (!(Math.abs(ratio - aspectRatio) / aspectRatio <= ASPECT_RATIO_TOLERANCE)) {
+      error("aspectRatio", { limit: aspectRatio, ratio }, `must have an aspect ratio of ${aspectRatio}`);
+    }
+  }
+  return errors;
+}
+
+async function inspect(
+  schema: any,
+  source: string | Uint8Array,
+  loader: ImageLoader,
+  instancePath: string,
+  schemaPath: string,
+): Promise<ImageInspection> {
+  const invalid = (params: { [key: string]: unknown }, message: string): ImageInspection => ({
+    info: null,
+    isValid: false,
+    errors: [{ keyword: "image", instancePath, schemaPath, params, message }],
+  });
+  let bytes: Uint8Array;
+  try {
+    bytes = typeof source === "string" ? await loader(source) : source;
+  } catch (e) {
+    return invalid({ error: e instanceof Error ? e.message : String(e) }, "could not be loaded");
+  }
+  const info = readImageInfo(bytes);
+  if (!info) return invalid({}, "must be a PNG, JPEG, WebP, GIF or SVG image");
+  const errors = check(schema, info, instancePath, schemaPath);
+  return { info, isValid: errors.length === 0, errors };
+}
+
+/**
+ * Load an image and check it against the `mimeTypes`, `extensions`, `minWidth`, `minHeight` and `aspectRatio` of a
+ * `V.Image` schema. Errors have the same shape as `Validator.parse` errors.
+ * @example
+ * import { promises } from "fs";
+ * import { Variable as V, createFileLoader, inspectImage } from "@flyyer/variables";
+ * const readFile = promises.readFile;
+ * const logo = V.Image({ mimeTypes: ["image/png", "image/svg+xml"], minWidth: 200 });
+ * const { info, isValid, errors } = await inspectImage(logo, "/logo.png", { loader: createFileLoader("./public", readFile) });
+ * // info: { mimeType: "image/png", width: 120, height: 120 }
+ * // errors: [{ keyword: "minWidth", params: { limit: 200, width: 120 }, message: "must be at least 200px wide", ... }]
+ */
+export async function inspectImage(
+  schema: TSchema,
+  source: string | Uint8Array,
+  options: InspectImageOptions = {},
+): Promise<ImageInspection> {
+  return inspect(schema, source, options.loader || missingLoader, "", "#");
+}
+
+/**
+ * Inspect every `V.Image` variable (including nested objects and arrays) with constraints, use after `Validator.parse`.
+ * Errors can be formatted with `ErrorFormatter`.
+ * @example
+ * import { inspectImages, ErrorFormatter } from "@flyyer/variables";
+ * const { data, isValid } = validator.parse(variables);
+ * const images = await inspectImages(schema, data, { loader: url => fetch(url).then(res => res.arrayBuffer()).then(buffer => new Uint8Array(buffer)) });
+ * new ErrorFormatter(schema).format(images.errors);
+ */
+export async function inspectImages(
+  schema: TSchema,
+  variables: unknown,
+  options: InspectImageOptions = {},
+): Promise<{ readonly isValid: boolean; readonly errors: ErrorObject[] }> {
+  const loader = options.loader || missingLoader;
+  const pending: Promise<ImageInspection>[] = [];
+  const walk = (property: any, value: unknown, instancePath: string, schemaPath: string) => {
+    if (!property || value === undefined || value === null) return;
+    if (Is.Image(property)) {
+      const constrained = IMAGE_KEYWORDS.some(keyword => property[keyword] !== undefined);
+      if (constrained && typeof value === "string" && value) {
+        pending.push(inspect(property, value, loader, instancePath, schemaPath));
+      }
+    } else if (property["properties"] && typeof value === "object" && !Array.isArray(value)) {
+      for (const key of Object.keys(property["properties"])) {
+        const escaped = key.replace(/~/g, "~0").replace(/\//g, "~1");
+        const child = (value as { [key: string]: unknown })[key];
+        walk(property["properties"][key], child, `${instancePath}/${escaped}`, `${schemaPath}/properties/${escaped}`);
+      }
+    } else if (property["items"] && Array.isArray(value)) {
+      value.forEach((item, index) => walk(property["items"], item, `${instancePath}/${index}`, `${schemaPath}/items`));
+    } else if (Array.isArray(property["anyOf"])) {
+      // Unions like `V.Union`
+      property["anyOf"].forEach((option: any, index: number) =>
+        walk(option, value, instancePath, `${schemaPath}/anyOf/${index}`),
+      );
+    }
+  };
+  walk(schema, variables, "", "#");
+  const results = await Promise.all(pending);
+  const errors = ([] as ErrorObject[]).concat(...results.map(result => result.errors));
+  return { isValid: errors.length === 0, errors };
+}
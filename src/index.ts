@@ -1,22 +1,107 @@
 import {
+  ArrayKind,
   CustomOptions,
   EnumKind,
+  NumberKind,
+  OptionalModifier,
+  ReadonlyOptionalModifier,
+  NumberOptions,
+  ObjectKind,
+  ObjectOptions,
   Static as TypeBoxStatic,
   StringFormatOption as StringFormatOptionBase,
   StringKind,
   StringOptions,
+  TArray,
   TEnum,
   TEnumType,
+  TLiteral,
   TNull,
+  TNumber,
+  TObject,
+  TOptional,
+  TProperties,
   TSchema,
   TString,
   TUnion,
+  TValue,
   TypeBuilder,
+  UnionKind,
 } from "@sinclair/typebox";
 import Ajv, { Options, Schema, ValidateFunction } from "ajv";
 import addFormats, { FormatsPluginOptions } from "ajv-formats";
 
+import { AuditOptions, diffChanges, unknownKeys } from "./audit";
+import { ColorSyntax, parseColor } from "./color";
+import { conditionRules, WhenCondition, WhenOptions } from "./conditional";
+import { COUNTRY_CODES } from "./countries";
+import { CURRENCY_CODES } from "./currencies";
+import { FONT_STYLES, FONT_WEIGHTS, FontConstraints, FontStyle, FontWeight, parseFont } from "./font";
+import { acceptsImageURL, ImageConstraints } from "./image";
+import { LocaleOptions, resolveLocalized } from "./localized";
+import { NORMALIZERS, REGEX_PHONE } from "./normalize";
+import { addPluginFormats, findPlugin, plugins, registerPlugin, VariablePlugin } from "./plugin";
+import { schemaHash } from "./registry";
+import { parseRichText, renderRichText, RichTextConstraints, RichTextMark } from "./richtext";
+import { StaticTransformed, TDateTime, transform, TransformOptions } from "./transform";
+import { migrate, MIGRATIONS, VersionedOptions } from "./versioned";
+
+export * from "./currencies";
+export * from "./countries";
+export * from "./color";
+export * from "./normalize";
+export * from "./codec";
+export * from "./lint";
+export * from "./form";
+export * from "./sample";
+export * from "./transform";
+export * from "./errors";
+export * from "./localized";
+export * from "./versioned";
+export * from "./diff";
+export * from "./serialize";
+export * from "./registry";
+export * from "./image";
+export * from "./font";
+export * from "./declaration";
+export * from "./conditional";
+export * from "./audit";
+export * from "./richtext";
+export * from "./openapi";
+export * from "./flatten";
+export * from "./plugin";
+
+/** Property created with `V.When` */
+export type TWhen<T extends TSchema, K extends string, V extends TValue, R extends boolean> = TOptional<T> & {
+  when: WhenCondition<K, V, R>;
+};
+
+/** Keys of properties created with `V.When` that are required when their condition matches */
+type ConditionalKeys<T extends TProperties> = {
+  [P in keyof T]: T[P] extends { when: WhenCondition<string, TValue, true> } ? P : never;
+}[keyof T];
+
+type UnionToIntersection<U> = (U extends any ? (value: U) => void : never) extends (value: infer I) => void ? I : never;
+
+/** Property `P` is required when `K` is one of the condition values, `K` has the other values otherwise. */
+type StaticCase<T extends TProperties, P extends keyof T> = T[P] extends { when: WhenCondition<infer K, infer V> }
+  ? K extends keyof T
+    ?
+        | ({ [key in K]: V } & { [key in P]-?: TypeBoxStatic<T[P]> })
+        | ({ [key in K]?: Exclude<TypeBoxStatic<T[K]>, V> } & { [key in P]?: TypeBoxStatic<T[P]> })
+    : unknown
+  : unknown;
+
+/** Discriminated union of an object with `V.When` properties */
+type StaticConditional<T extends TProperties> = TypeBoxStatic<TObject<T>> &
+  (UnionToIntersection<{ [P in ConditionalKeys<T>]: { case: StaticCase<T, P> } }[ConditionalKeys<T>]> extends {
+    case: infer C;
+  }
+    ? C
+    : unknown);
+
 /**
+ * Type of the variables after `Validator.parse`, objects with `V.When` properties are discriminated unions.
  * @example
  * import { Variable as V, Static } from "@flyyer/variables";
  * export const schema = V.Object({
@@ -35,7 +120,11 @@ import addFormats, { FormatsPluginOptions } from "ajv-formats";
  *   // ...
  * }
  */
-export type Static<T> = TypeBoxStatic<T>;
+export type Static<T> = T extends TObject<infer U>
+  ? [ConditionalKeys<U>] extends [never]
+    ? TypeBoxStatic<T>
+    : StaticConditional<U>
+  : TypeBoxStatic<T>;
 
 /**
  * Overrides default formats and add custom values.
@@ -44,16 +133,59 @@ export type StringFormatOption =
   // Base formats
   | StringFormatOptionBase
   // Non-standard definition same as VSCode
-  | "color-hex";
+  | "color-hex"
+  // Non-standard: CSS Color Module Level 4
+  | "color"
+  // Non-standard: ISO 4217 currency code
+  | "currency"
+  // Non-standard: ISO 3166-1 alpha-2 country code
+  | "country"
+  // Non-standard: E.164 phone number
+  | "phone";
 
 /**
  * Source: https://github.com/validatorjs/validator.js/blob/63b61629187a732c3b3c8d89fe4cacad890cad99/src/lib/isHexColor.js
  */
 const REGEX_COLOR_HEX = /^#?([0-9A-F]{3}|[0-9A-F]{4}|[0-9A-F]{6}|[0-9A-F]{8})$/i;
 
+/** Non-standard keyword to tell apart `V.EnumKeys` from `V.Enum` */
+const ENUM_KEYS = "enumKeys" as const;
+/** Non-standard keywords of `V.LocalizedString` */
+const LOCALIZED = "localized" as const;
+const DEFAULT_LOCALE = "defaultLocale" as const;
+/** Loose BCP 47 language tag like `en`, `es-CL` or `zh-Hant-TW` */
+const PATTERN_LOCALE = "^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$";
+/** Non-standard keyword to replace string values before validation, see `NORMALIZERS` */
+const NORMALIZE = "normalize" as const;
+/** Non-standard keyword with the current version of `V.Versioned` schemas */
+const SCHEMA_VERSION = "schemaVersion" as const;
+/** Non-standard keyword with the `FontConstraints` of `V.Font` */
+const FONT = "font" as const;
+/** Non-standard keyword with the `RichTextConstraints` of `V.RichText` */
+const RICH_TEXT = "richText" as const;
+/** Non-standard keyword of `V.Color` to restrict the allowed syntaxes */
+const COLOR_SYNTAXES = "colorSyntaxes" as const;
+
+const SET_CURRENCY_CODES = new Set<string>(CURRENCY_CODES);
+const SET_COUNTRY_CODES = new Set<string>(COUNTRY_CODES);
+
 const URI_REFERENCE: StringFormatOption = "uri-reference" as const;
+const FORMAT_COLOR: StringFormatOption = "color" as const;
+const FORMAT_CURRENCY: StringFormatOption = "currency" as const;
+const FORMAT_COUNTRY: StringFormatOption = "country" as const;
+const FORMAT_PHONE: StringFormatOption = "phone" as const;
+/** Non-standard format to mark `V.Address` objects, the properties do the validation. */
+const FORMAT_ADDRESS = "address" as const;
+/** Non-standard format for numbers (or `{ amount, currency }` objects) intended as money. */
+const FORMAT_PRICE = "price" as const;
 const MIME_IMAGE = "image/*" as const;
 const MIME_FONT = "font/*" as const;
+const MIME_MARKDOWN = "text/markdown" as const;
+
+/**
+ * Options of `validator.parse(variables, options)`
+ */
+export type ParseOptions = ({ transform?: false } | TransformOptions) & LocaleOptions & AuditOptions;
 
 /**
  * Create an extended instance of AJV with better support for @flyyer/variables.
@@ -70,8 +202,12 @@ const MIME_FONT = "font/*" as const;
 export class Validator<U extends Schema, D extends Static<U>> {
   /** Cached instance of AJV */
   public readonly ajv: Ajv;
-  /** Schema key */
-  public readonly key = "flyyer-variables";
+  /** Schema key, includes the hash of the schema when sharing an instance of AJV */
+  public readonly key: string = "flyyer-variables";
+  /** `true` when the instance of AJV was received */
+  private readonly shared: boolean = false;
+  /** Compiled schema after it was removed from the shared instance of AJV */
+  private detached?: ValidateFunction<D>;
 
   /** Default options for https://github.com/ajv-validator/ajv */
   public static DEFAULT_OPTIONS: Options = {
@@ -86,23 +222,139 @@ export class Validator<U extends Schema, D extends Static<U>> {
     mode: "fast",
   };
 
-  public constructor(schema: U, options?: Options, formatOptions?: FormatsPluginOptions) {
+  /**
+   * Pass an instance of AJV from `Validator.createAjv` as `options` to share it with other validators (see `ValidatorRegistry`).
+   */
+  public constructor(public readonly schema: U, options?: Options | Ajv, formatOptions?: FormatsPluginOptions) {
+    if (options instanceof Ajv) {
+      this.ajv = options;
+      this.shared = true;
+      this.key = `${this.key}/${schemaHash(schema as TSchema)}`;
+    } else {
+      this.ajv = Validator.createAjv(options, formatOptions);
+    }
+    // Formats of `V.use` plugins, they can be registered after creating a shared instance of AJV
+    addPluginFormats(this.ajv, schema);
+    if (this.shared && this.ajv.schemas[this.key]) return;
+    // Finalize setup
+    this.ajv.addSchema(schema, this.key);
+  }
+
+  /**
+   * Create an instance of AJV with the options, formats and keywords used by `Validator`.
+   */
+  public static createAjv(options?: Options, formatOptions?: FormatsPluginOptions): Ajv {
     const instance = new Ajv({
       ...Validator.DEFAULT_OPTIONS,
       ...options,
     });
-    this.ajv = addFormats(instance, {
+    const ajv = addFormats(instance, {
       ...Validator.DEFAULT_FORMATS_OPTIONS,
       ...formatOptions,
     });
-    this.ajv.addKeyword("kind").addKeyword("modifier");
+    ajv
+      .addKeyword("kind")
+      .addKeyword("modifier")
+      .addKeyword(ENUM_KEYS)
+      .addKeyword(LOCALIZED)
+      .addKeyword(DEFAULT_LOCALE)
+      .addKeyword(SCHEMA_VERSION)
+      .addKeyword({
+        keyword: NORMALIZE,
+        type: "string",
+        schemaType: "string",
+        modifying: true,
+        errors: false,
+        before: "format",
+        validate: (name: string, data: string, _parentSchema, dataCxt) => {
+          const normalize = NORMALIZERS[name];
+          if (normalize && dataCxt && dataCxt.parentData) {
+            dataCxt.parentData[dataCxt.parentDataProperty] = normalize(data);
+          }
+          return true;
+        },
+      })
+      .addKeyword({ keyword: "minWidth", schemaType: "number" })
+      .addKeyword({ keyword: "minHeight", schemaType: "number" })
+      .addKeyword({ keyword: "aspectRatio", schemaType: "number" })
+      .addKeyword({
+        keyword: FONT,
+        schemaType: "object",
+        modifying: true,
+        // Runs before `anyOf` so descriptors are validated already normalized
+        before: "anyOf",
+        validate: (constraints: FontConstraints, data: unknown, _parentSchema, dataCxt) => {
+          // `null` of `V.Nullable` is checked by `type`
+          if (data === null) return true;
+          const font = parseFont(data, constraints);
+          if (!font) return false;
+          if (dataCxt && dataCxt.parentData) {
+            // Plain fonts keep the weights and styles of descriptors like `"roboto:700"` (as `"Roboto:700"`)
+            const variants = typeof data === "string" && data.includes(":") ? data.slice(data.indexOf(":")) : "";
+            dataCxt.parentData[dataCxt.parentDataProperty] = constraints.descriptor ? font : font.family + variants;
+          }
+          return true;
+        },
+      })
+      .addKeyword({
+        keyword: RICH_TEXT,
+        type: "string",
+        schemaType: "object",
+        modifying: true,
+        validate: (constraints: RichTextConstraints, data: string, parentSchema, dataCxt) => {
+          // Already reported by `maxLength` (which counts code points), don't spend time parsing long texts
+          const maxLength = (parentSchema as any)["maxLength"];
+          if (typeof maxLength === "number" && data.length > maxLength && Array.from(data).length > maxLength) {
+            return true;
+          }
+          const paragraphs = parseRichText(data, constraints);
+          if (!paragraphs) return false;
+          if (dataCxt && dataCxt.parentData && constraints.output && constraints.output !== "markdown") {
+            const value = constraints.output === "ast" ? paragraphs : renderRichText(paragraphs);
+            dataCxt.parentData[dataCxt.parentDataProperty] = value;
+          }
+          return true;
+        },
+      })
+      .addKeyword({
+        keyword: ["mimeTypes", "extensions"],
+        type: "string",
+        schemaType: "array",
+        // Only the extension of the URL can be checked here, see `inspectImage`
+        validate: (_allowed: string[], data: string, parentSchema) =>
+          acceptsImageURL((parentSchema || {}) as ImageConstraints, data),
+      })
+      .addKeyword({
+        keyword: COLOR_SYNTAXES,
+        type: "string",
+        schemaType: "array",
+        // Check the original syntax, normalized values are always hexadecimal.
+        before: NORMALIZE,
+        validate: (syntaxes: ColorSyntax[], data: string) => {
+          const color = parseColor(data);
+          return !color || syntaxes.includes(color.syntax);
+        },
+      });
     // Add custom formats
-    this.ajv.addFormat("color-hex", REGEX_COLOR_HEX);
-    // Finalize setup
-    this.ajv.addSchema(schema, this.key);
+    ajv.addFormat("color-hex", REGEX_COLOR_HEX);
+    ajv.addFormat(FORMAT_COLOR, (value: string) => parseColor(value) !== null);
+    ajv.addFormat(FORMAT_CURRENCY, (value: string) => SET_CURRENCY_CODES.has(value));
+    ajv.addFormat(FORMAT_PRICE, { type: "number", validate: (value: number) => Number.isFinite(value) });
+    ajv.addFormat(FORMAT_COUNTRY, (value: string) => SET_COUNTRY_CODES.has(value));
+    ajv.addFormat(FORMAT_PHONE, REGEX_PHONE);
+    ajv.addFormat(FORMAT_ADDRESS, true);
+    return ajv;
   }
 
   public getSchema() {
+    if (this.shared && !this.ajv.schemas[this.key]) {
+      // Removed from a shared instance of AJV (see `ValidatorRegistry`), compile it without keeping it there
+      if (!this.detached) {
+        this.detached = this.ajv.compile<D>(this.schema);
+        this.ajv.removeSchema(this.schema);
+      }
+      return this.detached;
+    }
     const validate = this.ajv.getSchema(this.key) as ValidateFunction<D> | undefined;
     if (!validate) {
       throw new Error("Missing schema");
@@ -112,16 +364,53 @@ export class Validator<U extends Schema, D extends Static<U>> {
 
   /**
    * Take `variables` and apply defaults, coerce types and return a fresh copy.
+   *
+   * `V.LocalizedString` values are resolved to a single string using `locale` (see `resolveLocale`).
+   *
+   * Inputs of `V.Versioned` schemas are upgraded before validating, see `migration` for the report.
+   *
+   * Use `{ transform: true }` to get `Date` instances for `V.DateTime` and `V.Date`, normalized `V.ColorHex` values
+   * and `V.URL` and `V.Image` resolved against `baseURL`. Validation is the same.
+   *
+   * Use `{ changes: true }` to get the list of coerced, normalized, defaulted and removed values as `changes` and
+   * `{ strict: true }` to report unknown keys as errors.
+   * @example
+   * import { Variable as V, Validator } from "@flyyer/variables";
+   * export const schema = V.Object({
+   *   createdAt: V.DateTime(),
+   *   color: V.ColorHex({ default: "fff" }),
+   *   image: V.Image(),
+   * });
+   * const validator = new Validator(schema);
+   * const { data } = validator.parse(variables, { transform: true, baseURL: "https://flyyer.io" });
+   * data.createdAt.getFullYear(); // `createdAt` is a `Date`
+   * data.color === "#FFFFFF" // true
    */
-  public parse<Input = unknown>(variables: Input) {
+  public parse<Input = unknown, O extends ParseOptions = { transform?: false }>(variables: Input, options?: O) {
     const validate = this.getSchema();
-    const cloned = JSON.parse(JSON.stringify(variables));
-    const valid = validate(cloned);
-    return { data: cloned as D, isValid: valid as boolean, errors: validate.errors } as const;
+    // Not `validate.schema`: a shared instance of AJV compiles once the schemas with the same content
+    const schema = this.schema as TSchema;
+    const migrated = migrate(schema, JSON.parse(JSON.stringify(variables)));
+    const cloned = migrated.variables;
+    const before = options && options.changes ? JSON.parse(JSON.stringify(cloned)) : undefined;
+    const unknown = options && options.strict ? unknownKeys(schema, cloned) : [];
+    const valid = validate(cloned) && unknown.length === 0;
+    const errors = unknown.length > 0 ? [...(validate.errors || []), ...unknown] : validate.errors;
+    const localized = resolveLocalized(schema, cloned, options && options.locale);
+    const data = options && options.transform ? transform(schema, localized, options) : localized;
+    type Data = O extends TransformOptions ? StaticTransformed<U> : D;
+    return {
+      data: data as Data,
+      isValid: valid as boolean,
+      errors,
+      migration: migrated.report,
+      changes: options && options.changes ? diffChanges(before, cloned) : null,
+    } as const;
   }
 
   /**
-   * Validate if `variables` respect the defined schema. Beware this mutates the object.
+   * Validate if `variables` respect the defined schema. Beware this mutates the object (`V.Versioned` inputs are upgraded in place
+   * and maps of `V.LocalizedString` are resolved to their default locale, use `parse` to pick another locale).
    *
    * This is a Type Guard, see example.
    * @example
@@ -140,10 +429,76 @@ export class Validator<U extends Schema, D extends Static<U>> {
    */
   public validate(variables: unknown): variables is D {
     const validate = this.getSchema();
-    return validate(variables);
+    const migrated = migrate(this.schema as TSchema, variables);
+    if (migrated.report) {
+      const target = variables as { [key: string]: unknown };
+      Object.keys(target).forEach(key => delete target[key]);
+      Object.assign(target, migrated.variables);
+    }
+    if (!validate(variables)) return false;
+    // Narrowed to `D`, where localized texts are strings
+    Object.assign(variables, resolveLocalized(this.schema as TSchema, variables));
+    return true;
   }
 }
 
+export type PriceOptions = NumberOptions & {
+  /** Enable object mode `{ amount, currency }`. Pass options to customize the `currency` property. */
+  currency?: boolean | StringOptions<StringFormatOption>;
+};
+
+/** Schema of `V.Price({ currency: true })` */
+export type TPriceObject = TObject<{ amount: TNumber; currency: TString }>;
+
+export type PhoneOptions = StringOptions<StringFormatOption> & {
+  /** Remove spaces, dashes, dots and parentheses (and replace `00` with `+`) before validating. */
+  normalize?: boolean;
+};
+
+export type ImageOptions<TFormat extends string = StringFormatOption> = StringOptions<TFormat> & ImageConstraints;
+
+export type FontOptions<TFormat extends string = StringFormatOption> = StringOptions<TFormat> & FontConstraints;
+
+/** Properties of the value of `V.Font({ descriptor: true })`, see `FontDescriptor` */
+export type TFontProperties = {
+  family: TString;
+  weights: TArray<TEnum<FontWeight>>;
+  styles: TArray<TEnum<FontStyle>>;
+  fallback: TString;
+};
+
+/** Schema of `V.Font({ descriptor: true })` */
+export type TFont = TObject<TFontProperties>;
+
+export type RichTextOptions<TFormat extends string = StringFormatOption> = StringOptions<TFormat> & RichTextConstraints;
+
+/** Schema of `V.RichText({ output: "ast" })`, see `RichTextParagraph` */
+export type TRichText = TArray<
+  TObject<{
+    type: TLiteral<"paragraph">;
+    children: TArray<TObject<{ text: TString; marks: TArray<TEnum<RichTextMark>>; href: TOptional<TString> }>>;
+  }>
+>;
+
+export type ColorOptions = StringOptions<StringFormatOption> & {
+  /** Allowed syntaxes, defaults to all of `COLOR_SYNTAXES` */
+  syntaxes?: ColorSyntax[];
+  /** Replace values with uppercase `#RRGGBB` (or `#RRGGBBAA`) before validating. */
+  normalize?: boolean;
+};
+
+/** Properties of `V.Address` and `V.AddressFields` */
+export type TAddressProperties = {
+  street: TString;
+  city: TString;
+  region: TOptional<TString>;
+  postalCode: TOptional<TString>;
+  country: TString;
+};
+
+/** Schema of `V.Address` */
+export type TAddress = TObject<TAddressProperties>;
+
 // Add more formats:
 // https://github.com/sinclairzx81/typebox/issues/43
 
@@ -158,8 +513,112 @@ export class VariableBuilder extends TypeBuilder {
     return super.String(options);
   }
 
+  /**
+   * Register a custom variable type (see `VariablePlugin`) and return a new builder with its builder method, this one is
+   * not changed. The plugin is registered globally: every `Validator` adds its format when a schema uses it and
+   * `Is.kindOf` returns its `kind`.
+   * @example
+   * import { Variable } from "@flyyer/variables";
+   * const V = Variable.use({
+   *   name: "Slug",
+   *   format: "slug",
+   *   validate: /^[a-z0-9]+(-[a-z0-9]+)*$/,
+   *   coerce: value => value.trim().toLowerCase(),
+   * });
+   * export const schema = V.Object({
+   *   slug: V.Slug({ default: "hello-world" }),
+   * });
+   */
+  public use<N extends string, O = StringOptions<string>, T extends TSchema = TString>(
+    plugin: VariablePlugin<N, O, T>,
+  ): this & Record<N, (options?: O) => T> {
+    const { name, format, build, coerce } = plugin;
+    if (name in this && !plugins().some(registered => registered.name === name)) {
+      throw new Error(`V.${name} is already defined`);
+    }
+    registerPlugin(plugin);
+    const method = (options: any = {}) => {
+      const schema: any = build ? build(options) : { format, ...options, kind: StringKind, type: "string" };
+      return coerce ? { ...schema, [NORMALIZE]: format } : schema;
+    };
+    const builder = Object.create(this);
+    builder[name] = method;
+    return builder; // facade
+  }
+
+  /** Same as TypeBox but properties created with `V.When` add JSON Schema `if`/`then` rules to `allOf`. */
+  public Object<T extends TProperties>(properties: T, options?: ObjectOptions): TObject<T> {
+    const schema = super.Object(properties, options);
+    const rules = conditionRules(properties);
+    if (rules.length === 0) return schema;
+    return { ...schema, allOf: [...((schema as any)["allOf"] || []), ...rules] };
+  }
+
   // Extensions
 
+  /**
+   * EXTENDED: Declare the version of a schema and the migrations to upgrade stored variables created with older versions.
+   *
+   * Variables declare their version with the `_version` key (inputs without it are version `1`), `Validator` runs the
+   * pending migrations before validating.
+   * @example
+   * import { Variable as V, Validator } from "@flyyer/variables";
+   * export const schema = V.Versioned(
+   *   V.Object({
+   *     headingColor: V.ColorHex({ default: "#FFFFFF" }),
+   *   }),
+   *   {
+   *     version: 2,
+   *     migrations: [{ version: 2, migrate: ({ titleColor, ...rest }) => ({ ...rest, headingColor: titleColor }) }],
+   *   },
+   * );
+   * const validator = new Validator(schema);
+   * const { data, migration } = validator.parse({ titleColor: "#000000" });
+   * data["headingColor"] === "#000000" // true
+   * migration; // { from: 1, to: 2, applied: [2] }
+   */
+  public Versioned<T extends TObject<TProperties>>(schema: T, options: VersionedOptions = {}): T {
+    const migrations = [...(options.migrations || [])];
+    const last = migrations[migrations.length - 1];
+    const version = options.version !== undefined ? options.version : last ? last.version : 1;
+    migrations.forEach((migration, index) => {
+      const previous = migrations[index - 1];
+      if ((previous && previous.version >= migration.version) || migration.version > version) {
+        throw new Error(
+          `Invalid migration to version ${migration.version}, migrations must be sorted up to ${version}`,
+        );
+      }
+    });
+    return { ...schema, [SCHEMA_VERSION]: version, [MIGRATIONS]: migrations };
+  }
+
+  /**
+   * EXTENDED: Variable that only applies when the sibling variable `key` is one of `values`, for example
+   * `gradientEnd` only when `background` is `"gradient"`. It is required in that case (unless `{ required: false }`)
+   * and `Validator` enforces it with JSON Schema `if`/`then` rules added by `V.Object`.
+   *
+   * The condition is kept as `when` so dashboards can hide the field (see `isVisible`), and `Static` becomes a
+   * discriminated union.
+   * @example
+   * import { Variable as V, Validator, Static } from "@flyyer/variables";
+   * export const schema = V.Object({
+   *   background: V.Union([V.Literal("solid"), V.Literal("gradient")], { default: "solid" }),
+   *   gradientEnd: V.When("background", "gradient", V.ColorHex()),
+   * });
+   * type Variables = Static<typeof schema>;
+   * // { background: "gradient", gradientEnd: string } | { background?: "solid", gradientEnd?: string }
+   */
+  public When<T extends TSchema, K extends string, V extends TValue, R extends boolean = true>(
+    key: K,
+    values: V | V[],
+    schema: T,
+    options: WhenOptions<R> = {},
+  ): TWhen<T, K, V, R> {
+    const { required = true } = options;
+    const when = { key, values: Array.isArray(values) ? values : [values], required };
+    return { ...schema, modifier: OptionalModifier, when } as any; // facade
+  }
+
   /**
    * EXTENDED: Different from `V.Optional`. This will show the variable on Flyyer UI. `Optional` hides them.
    * @example
@@ -170,6 +629,12 @@ export class VariableBuilder extends TypeBuilder {
    * });
    */
   public Nullable<T extends TSchema>(schema: T): TUnion<[T, TNull]> {
+    const union: unknown = (schema as any)["anyOf"];
+    if (Array.isArray(union) && (schema as any)["type"] !== undefined) {
+      // Ajv checks `anyOf` after `type`, its typed options must accept `null` too (or `coerceTypes` replaces it)
+      const anyOf = union.map(option => (option["type"] !== undefined ? { ...option, nullable: true } : option));
+      return { ...schema, nullable: true, anyOf } as any; // facade
+    }
     return { ...schema, nullable: true } as any; // facade
   }
 
@@ -191,7 +656,7 @@ export class VariableBuilder extends TypeBuilder {
     //   return { ...options, kind: EnumKind, enum: keys };
     // }
     const type = "string" as const;
-    return { ...options, kind: EnumKind, type, enum: keys };
+    return { ...options, kind: EnumKind, type, enum: keys, [ENUM_KEYS]: true };
   }
 
   /**
@@ -209,9 +674,20 @@ export class VariableBuilder extends TypeBuilder {
     return { format, ...options, kind: StringKind, type: "string" };
   }
 
-  /** EXTENDED: Intended for images URLs (relative or absolute). Creates a String schema with `{ format: "uri-reference", contentMediaType: "image/*" }` */
+  /**
+   * EXTENDED: Intended for images URLs (relative or absolute). Creates a String schema with `{ format: "uri-reference", contentMediaType: "image/*" }`
+   *
+   * `Validator` checks `mimeTypes` and `extensions` against the extension of the URL (when it has one), use
+   * `inspectImage` or `inspectImages` to check the contents and dimensions.
+   * @example
+   * import { Variable as V, Validator } from "@flyyer/variables";
+   * export const schema = V.Object({
+   *   logo: V.Image({ mimeTypes: ["image/png", "image/svg+xml"], minWidth: 200 }),
+   *   background: V.Image({ extensions: ["jpg", "webp"], minWidth: 1200, aspectRatio: 1200 / 630 }),
+   * });
+   */
   public Image<TCustomFormatOption extends string>(
-    options: StringOptions<StringFormatOption | TCustomFormatOption> = {},
+    options: ImageOptions<StringFormatOption | TCustomFormatOption> = {},
   ): TString {
     const format: StringFormatOption = URI_REFERENCE;
 
@@ -219,18 +695,90 @@ export class VariableBuilder extends TypeBuilder {
   }
 
   /**
-   * EXTENDED: Intended for fonts. Creates a String schema with `{ format: "uri-reference", contentMediaType: "font/*" }`
+   * EXTENDED: Intended for fonts. Creates a String schema with `{ contentMediaType: "font/*" }`
+   *
+   * Use `{ families: true }` to only accept families of `FONT_FAMILIES` (or pass your own list), `Validator` fixes their case.
+   * Values with weights and styles like `"Roboto:700"` are checked against the allowed `weights` and `styles` and kept.
+   *
+   * With `{ descriptor: true }` it accepts descriptors like `"Inter:400,700italic"` or `{ family, weights, styles, fallback }`
+   * restricted to the allowed `weights` and `styles`. `Validator` replaces them with a `FontDescriptor`.
    * @example
    * import { Variable as V, Validator } from "@flyyer/variables";
    * export const schema = V.Object({
    *   font: V.Font({ default: "Fira Code" }),
    *   fonts: V.Array(V.Font(), { examples: [["Inter", "Roboto"]] }),
+   *   heading: V.Font({ descriptor: true, families: true, weights: [400, 700], default: "Inter:700" }),
    * });
+   * const validator = new Validator(schema);
+   * validator.parse({}).data["heading"]; // { family: "Inter", weights: [700], styles: ["normal"], fallback: "sans-serif" }
    */
-  public Font<TCustomFormatOption extends string>(
-    options: StringOptions<StringFormatOption | TCustomFormatOption> = {},
-  ): TString {
-    return { contentMediaType: MIME_FONT, ...options, kind: StringKind, type: "string" };
+  public Font<
+    TCustomFormatOption extends string,
+    TOptions extends FontOptions<StringFormatOption | TCustomFormatOption> = FontOptions<
+      StringFormatOption | TCustomFormatOption
+    >
+  >(options: TOptions = {} as TOptions): TOptions extends { descriptor: true } ? TFont : TString {
+    const { descriptor, weights, styles, fallback, families, ...rest } = options;
+    const constraints: FontConstraints = { descriptor, weights, styles, fallback, families };
+    Object.keys(constraints).forEach(key => {
+      if (constraints[key as keyof FontConstraints] === undefined) delete constraints[key as keyof FontConstraints];
+    });
+    const font = Object.keys(constraints).length > 0 ? { [FONT]: constraints } : {};
+    if (!descriptor) {
+      return { contentMediaType: MIME_FONT, ...rest, ...font, kind: StringKind, type: "string" } as any;
+    }
+    const text: TString = { kind: StringKind, type: "string", minLength: 1 };
+    const object = {
+      kind: ObjectKind,
+      type: "object",
+      properties: {
+        family: text,
+        weights: { kind: ArrayKind, type: "array", items: { kind: EnumKind, enum: weights || FONT_WEIGHTS } },
+        styles: { kind: ArrayKind, type: "array", items: { kind: EnumKind, enum: styles || FONT_STYLES } },
+        fallback: text,
+      },
+      required: ["family"],
+      additionalProperties: false,
+    };
+    // `type` lets Ajv apply `nullable` of `V.Nullable`
+    const type = ["string", "object"];
+    return { contentMediaType: MIME_FONT, ...rest, ...font, kind: UnionKind, type, anyOf: [text, object] } as any; // facade
+  }
+
+  /**
+   * EXTENDED: Intended for formatted texts. Creates a String schema with `{ contentMediaType: "text/markdown" }` that
+   * accepts a Markdown subset: paragraphs, line breaks, `**bold**`, `*italic*`, `` `code` `` and `[links](https://flyyer.io)`.
+   *
+   * Use `marks` to restrict the allowed marks (the syntax of others is kept as plain text) and `maxLength` to limit the
+   * source text. Links that are not `http`, `https`, `mailto` or relative are invalid.
+   *
+   * With `{ output: "ast" }` or `{ output: "html" }` `Validator` replaces values with `RichTextParagraph[]` or with
+   * escaped HTML (see `parseRichText` and `renderRichText`).
+   * @example
+   * import { Variable as V, Validator } from "@flyyer/variables";
+   * export const schema = V.Object({
+   *   description: V.RichText({ marks: ["bold", "italic"], maxLength: 280 }),
+   *   headline: V.RichText({ output: "ast", default: "Hello **world**" }),
+   * });
+   * const validator = new Validator(schema);
+   * validator.parse({}).data["headline"];
+   * // [{ type: "paragraph", children: [{ text: "Hello ", marks: [] }, { text: "world", marks: ["bold"] }] }]
+   */
+  public RichText<TOptions extends RichTextOptions<string>>(
+    options: TOptions = {} as TOptions,
+  ): TOptions extends { output: "ast" } ? TRichText : TString {
+    const { marks, output, ...rest } = options;
+    const constraints: RichTextConstraints = {};
+    if (marks) constraints.marks = marks;
+    if (output) constraints.output = output;
+    // facade: values of `{ output: "ast" }` are replaced by `Validator`
+    return {
+      contentMediaType: MIME_MARKDOWN,
+      ...rest,
+      [RICH_TEXT]: constraints,
+      kind: StringKind,
+      type: "string",
+    } as any;
   }
 
   /**
@@ -251,6 +799,29 @@ export class VariableBuilder extends TypeBuilder {
     return { format, ...options, kind: StringKind, type: "string" };
   }
 
+  /**
+   * EXTENDED: Intended for CSS colors like `#FFF`, `rgb(255 255 255 / 50%)`, `hsl(...)`, `oklch(...)` or `rebeccapurple`.
+   * Creates a String schema with `{ format: "color" }`.
+   *
+   * Use `{ syntaxes }` to restrict what is accepted and `{ normalize: true }` to get hexadecimal values from `Validator`.
+   * @example
+   * import { Variable as V, Validator } from "@flyyer/variables";
+   * export const schema = V.Object({
+   *   brand: V.Color({ normalize: true, default: "rebeccapurple" }),
+   *   background: V.Color({ syntaxes: ["hex", "rgb"] }),
+   * });
+   * const validator = new Validator(schema);
+   * validator.parse({ background: "rgb(0 0 0)" }).data["brand"] === "#663399" // true
+   */
+  public Color(options: ColorOptions = {}): TString {
+    const { syntaxes, normalize, ...rest } = options;
+    const format: StringFormatOption = FORMAT_COLOR;
+    const schema: TString = { format, ...rest, kind: StringKind, type: "string" };
+    if (syntaxes) schema[COLOR_SYNTAXES] = syntaxes;
+    if (normalize) schema[NORMALIZE] = "color";
+    return schema;
+  }
+
   /**
    * EXTENDED: Intended for Emails addresses. Creates a String schema with `{ format: "email" }`
    * @example
@@ -266,14 +837,124 @@ export class VariableBuilder extends TypeBuilder {
     return { format, ...options, kind: StringKind, type: "string" };
   }
 
-  // TODO: Phone number and Address
+  /**
+   * EXTENDED: Intended for texts in multiple languages. Accepts a plain string or a map of BCP 47 locales to strings.
+   *
+   * `Validator.parse` resolves it to a single string with `{ locale }`, falling back to `es-CL` → `es` → `defaultLocale` → first entry.
+   * @example
+   * import { Variable as V, Validator } from "@flyyer/variables";
+   * export const schema = V.Object({
+   *   title: V.LocalizedString({ defaultLocale: "en", examples: [{ en: "Hello", es: "Hola" }] }),
+   * });
+   * const validator = new Validator(schema);
+   * export default function Template({ variables, locale }) {
+   *   const { data } = validator.parse(variables, { locale });
+   *   const title = data["title"]; // type is `string`
+   * }
+   */
+  public LocalizedString<TCustomFormatOption extends string>(
+    options: StringOptions<StringFormatOption | TCustomFormatOption> & { defaultLocale?: string } = {},
+  ): TString {
+    const { minLength, maxLength, pattern, format, contentEncoding, contentMediaType, ...custom } = options;
+    const constraints: StringOptions<string> = {
+      minLength,
+      maxLength,
+      pattern,
+      format,
+      contentEncoding,
+      contentMediaType,
+    };
+    Object.keys(constraints).forEach(key => {
+      if (constraints[key] === undefined) delete constraints[key];
+    });
+    const text: TString = { ...constraints, kind: StringKind, type: "string" };
+    const map = {
+      type: "object",
+      propertyNames: { pattern: PATTERN_LOCALE },
+      additionalProperties: text,
+      minProperties: 1,
+    };
+    // `type` lets Ajv apply `nullable` of `V.Nullable`
+    const type = ["string", "object"];
+    return { ...custom, [LOCALIZED]: true, kind: UnionKind, type, anyOf: [text, map] } as any; // facade
+  }
+
+  /**
+   * EXTENDED: Intended for phone numbers in E.164 format like `+56912345678`. Creates a String schema with `{ format: "phone" }`.
+   *
+   * Use `{ normalize: true }` to accept formatted numbers like `"+56 9 1234 5678"`, `Validator` replaces them with their E.164 form.
+   * @example
+   * import { Variable as V, Validator } from "@flyyer/variables";
+   * export const schema = V.Object({
+   *   phone: V.Phone({ normalize: true, examples: ["+56912345678"] }),
+   * });
+   * const validator = new Validator(schema);
+   * validator.parse({ phone: "+56 9 1234 5678" }).data["phone"] === "+56912345678" // true
+   */
+  public Phone(options: PhoneOptions = {}): TString {
+    const { normalize, ...rest } = options;
+    const format: StringFormatOption = FORMAT_PHONE;
+    const schema: TString = { format, ...rest, kind: StringKind, type: "string" };
+    return normalize ? { ...schema, [NORMALIZE]: "phone" } : schema;
+  }
+
+  /**
+   * EXTENDED: Intended for ISO 3166-1 alpha-2 country codes (uppercase). Creates a String schema with `{ format: "country" }`
+   * @example
+   * import { Variable as V, Validator } from "@flyyer/variables";
+   * export const schema = V.Object({
+   *   country: V.Country({ default: "CL", examples: ["CL", "US"] }),
+   * });
+   */
+  public Country<TCustomFormatOption extends string>(
+    options: StringOptions<StringFormatOption | TCustomFormatOption> = {},
+  ): TString {
+    const format: StringFormatOption = FORMAT_COUNTRY;
+    return { format, ...options, kind: StringKind, type: "string" };
+  }
+
+  /**
+   * EXTENDED: Intended for postal addresses. Creates an Object schema with `{ format: "address" }` and the properties
+   * `street`, `city`, `country` (ISO 3166-1 alpha-2) and the optional `region` and `postalCode`.
+   *
+   * Nested objects are not handled by Flyyer.io UI, use `V.AddressFields` to get the same properties as flat keys.
+   * @example
+   * import { Variable as V, Validator } from "@flyyer/variables";
+   * export const schema = V.Object({
+   *   address: V.Address({ examples: [{ street: "Av. Providencia 1234", city: "Santiago", country: "CL" }] }),
+   * });
+   */
+  public Address(options: CustomOptions = {}): TAddress {
+    const properties = this.AddressFields();
+    const required = ["street", "city", "country"];
+    return { format: FORMAT_ADDRESS, ...options, kind: ObjectKind, type: "object", properties, required } as any; // facade
+  }
+
+  /**
+   * EXTENDED: Properties of `V.Address` to spread into `V.Object`, compatible with Flyyer.io UI.
+   * @example
+   * import { Variable as V, Validator } from "@flyyer/variables";
+   * export const schema = V.Object({
+   *   title: V.String(),
+   *   ...V.AddressFields(),
+   * });
+   */
+  public AddressFields(): TAddressProperties {
+    return {
+      street: this.String({ title: "Street" }),
+      city: this.String({ title: "City" }),
+      region: this.Optional(this.String({ title: "Region" })),
+      postalCode: this.Optional(this.String({ title: "Postal code" })),
+      country: this.Country({ title: "Country" }),
+    };
+  }
 
   /** EXTENDED: Prefer `DateTime` for better compatibility with `Date` class */
   public Date<TCustomFormatOption extends string>(
     options: StringOptions<StringFormatOption | TCustomFormatOption> = {},
-  ): TString {
+  ): TDateTime {
     const format: StringFormatOption = "date";
-    return { format, ...options, kind: StringKind, type: "string" };
+    return { format, ...options, kind: StringKind, type: "string" } as TDateTime;
   }
 
   /** EXTENDED: Prefer `DateTime` for better compatibility with `Date` class */
@@ -285,7 +966,7 @@ export class VariableBuilder extends TypeBuilder {
   }
 
   /**
-   * EXTENDED: Recommended for dates and times (and date-times). Note: parsed value will be a string, not a `Date`.
+   * EXTENDED: Recommended for dates and times (and date-times). Note: parsed value will be a string, not a `Date` (unless using `validator.parse(variables, { transform: true })`).
    * @example
    * import { Variable as V, Validator } from "@flyyer/variables";
    * export const schema = V.Object({
@@ -297,10 +978,56 @@ export class VariableBuilder extends TypeBuilder {
    */
   public DateTime<TCustomFormatOption extends string>(
     options: StringOptions<StringFormatOption | TCustomFormatOption> = {},
-  ): TString {
+  ): TDateTime {
     const format: StringFormatOption = "date-time";
+    return { format, ...options, kind: StringKind, type: "string" } as TDateTime;
+  }
+
+  /**
+   * EXTENDED: Intended for ISO 4217 currency codes (uppercase). Creates a String schema with `{ format: "currency" }`
+   * @example
+   * import { Variable as V, Validator } from "@flyyer/variables";
+   * export const schema = V.Object({
+   *   currency: V.Currency({ default: "USD", examples: ["USD", "EUR"] }),
+   * });
+   */
+  public Currency<TCustomFormatOption extends string>(
+    options: StringOptions<StringFormatOption | TCustomFormatOption> = {},
+  ): TString {
+    const format: StringFormatOption = FORMAT_CURRENCY;
     return { format, ...options, kind: StringKind, type: "string" };
   }
+
+  /**
+   * EXTENDED: Intended for prices. Creates a Number schema with `{ format: "price" }`, numeric strings such as `"59.99"` are coerced by `Validator`.
+   *
+   * Set `currency` to get an object with `{ amount, currency }` instead, `currency` can be `true` or the options for `V.Currency`.
+   * @example
+   * import { Variable as V, Validator } from "@flyyer/variables";
+   * export const schema = V.Object({
+   *   price: V.Price({ default: 0, examples: [59.99] }),
+   *   total: V.Price({ currency: { default: "USD" }, examples: [{ amount: 59.99, currency: "EUR" }] }),
+   * });
+   */
+  public Price<T extends PriceOptions>(
+    options: T = {} as T,
+  ): T extends { currency: true | StringOptions<StringFormatOption> } ? TPriceObject : TNumber {
+    const { currency, ...rest } = options;
+    if (!currency) {
+      return { format: FORMAT_PRICE, ...rest, kind: NumberKind, type: "number" } as any; // facade
+    }
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf, ...custom } = rest;
+    const constraints: NumberOptions = { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf };
+    Object.keys(constraints).forEach(key => {
+      if (constraints[key] === undefined) delete constraints[key];
+    });
+    const properties = {
+      amount: { ...constraints, kind: NumberKind, type: "number" } as TNumber,
+      currency: this.Currency(currency === true ? {} : currency),
+    };
+    const required = ["amount", "currency"];
+    return { format: FORMAT_PRICE, ...custom, kind: ObjectKind, type: "object", properties, required } as any; // facade
+  }
 }
 
 /**
@@ -328,26 +1055,183 @@ export const Variable = new VariableBuilder();
  * Check type of variables
  */
 
+export type WidgetKind =
+  | "localized"
+  | "enum-keys"
+  | "enum"
+  | "price"
+  | "currency"
+  | "country"
+  | "phone"
+  | "address"
+  | "image"
+  | "font"
+  | "richtext"
+  | "url"
+  | "color"
+  | "email"
+  | "datetime"
+  | "date"
+  | "time"
+  | "integer"
+  | "number"
+  | "boolean"
+  | "text"
+  | "object"
+  | "array"
+  | "unknown";
+
 export class Is {
-  // protected static validate(variable: unknown): any {
-  //   if (!variable) throw TypeError("Missing argument");
-  // }
+  /** Every guard throws `TypeError` on `null` or `undefined` input. */
+  protected static validate(variable: unknown): any {
+    if (!variable) throw TypeError("Missing argument");
+    return variable;
+  }
   public static Nullable(variable: unknown): boolean {
-    // @ts-expect-error Ignore type warning
-    return variable["nullable"] === true;
+    return Is.validate(variable)["nullable"] === true;
+  }
+  /** Properties created with `V.Optional` (or `V.ReadonlyOptional`) */
+  public static Optional(variable: unknown): boolean {
+    const modifier = Is.validate(variable)["modifier"];
+    return modifier === OptionalModifier || modifier === ReadonlyOptionalModifier;
+  }
+  /** Properties created with `V.When` */
+  public static Conditional(variable: unknown): boolean {
+    const when = Is.validate(variable)["when"];
+    return Boolean(when) && typeof when["key"] === "string" && Array.isArray(when["values"]);
   }
   public static Image(variable: unknown): boolean {
-    // @ts-expect-error Ignore type warning
-    return this.URL(variable) && variable["contentMediaType"] === MIME_IMAGE;
+    return Is.URL(variable) && Is.validate(variable)["contentMediaType"] === MIME_IMAGE;
   }
   public static URL(variable: unknown): boolean {
-    if (!variable) throw TypeError("Missing argument");
-    // @ts-expect-error Ignore type warning
-    return variable["type"] === "string" && variable["format"] === URI_REFERENCE;
+    const schema = Is.validate(variable);
+    return schema["type"] === "string" && schema["format"] === URI_REFERENCE;
   }
+  /** Both family names and descriptors created with `V.Font` */
   public static Font(variable: unknown): boolean {
-    if (!variable) throw TypeError("Missing argument");
-    // @ts-expect-error Ignore type warning
-    return variable["type"] === "string" && variable["contentMediaType"] === MIME_FONT;
+    const schema = Is.validate(variable);
+    return (schema["type"] === "string" || schema[FONT] !== undefined) && schema["contentMediaType"] === MIME_FONT;
+  }
+  /** Fonts created with `V.Font({ descriptor: true })` */
+  public static FontDescriptor(variable: unknown): boolean {
+    const font = Is.validate(variable)[FONT];
+    return Is.Font(variable) && Boolean(font) && font["descriptor"] === true;
+  }
+  /** Texts created with `V.RichText` */
+  public static RichText(variable: unknown): boolean {
+    const schema = Is.validate(variable);
+    return schema["type"] === "string" && schema["contentMediaType"] === MIME_MARKDOWN;
+  }
+  public static ColorHex(variable: unknown): boolean {
+    return Is.StringFormat(variable, "color-hex");
+  }
+  /** Colors created with `V.Color`, `V.ColorHex` is not included. */
+  public static Color(variable: unknown): boolean {
+    return Is.StringFormat(variable, FORMAT_COLOR);
+  }
+  public static Email(variable: unknown): boolean {
+    return Is.StringFormat(variable, "email");
+  }
+  public static DateTime(variable: unknown): boolean {
+    return Is.StringFormat(variable, "date-time");
+  }
+  public static Date(variable: unknown): boolean {
+    return Is.StringFormat(variable, "date");
+  }
+  public static Time(variable: unknown): boolean {
+    return Is.StringFormat(variable, "time");
+  }
+  public static Currency(variable: unknown): boolean {
+    return Is.StringFormat(variable, FORMAT_CURRENCY);
+  }
+  /** Both `V.Price()` and `V.Price({ currency: true })` */
+  public static Price(variable: unknown): boolean {
+    const schema = Is.validate(variable);
+    const type = schema["type"];
+    return (type === "number" || type === "object") && schema["format"] === FORMAT_PRICE;
+  }
+  public static Country(variable: unknown): boolean {
+    return Is.StringFormat(variable, FORMAT_COUNTRY);
+  }
+  public static Phone(variable: unknown): boolean {
+    return Is.StringFormat(variable, FORMAT_PHONE);
+  }
+  public static Address(variable: unknown): boolean {
+    const schema = Is.validate(variable);
+    return schema["type"] === "object" && schema["format"] === FORMAT_ADDRESS;
+  }
+  /** Both `V.Enum` and `V.EnumKeys`, use `Is.EnumKeys` to tell them apart. */
+  public static Enum(variable: unknown): boolean {
+    return Array.isArray(Is.validate(variable)["enum"]);
+  }
+  public static EnumKeys(variable: unknown): boolean {
+    return Is.Enum(variable) && Is.validate(variable)[ENUM_KEYS] === true;
+  }
+  /** Strings or maps of locales to strings created with `V.LocalizedString` */
+  public static LocalizedString(variable: unknown): boolean {
+    return Is.validate(variable)[LOCALIZED] === true;
+  }
+  public static String(variable: unknown): boolean {
+    return Is.validate(variable)["type"] === "string";
+  }
+  public static Integer(variable: unknown): boolean {
+    return Is.validate(variable)["type"] === "integer";
+  }
+  /** Floats, `V.Integer` is not included. */
+  public static Number(variable: unknown): boolean {
+    return Is.validate(variable)["type"] === "number";
+  }
+  public static Boolean(variable: unknown): boolean {
+    return Is.validate(variable)["type"] === "boolean";
+  }
+  /** Schemas of plugins registered with `V.use`, pass the `format` to check a specific one. */
+  public static Plugin(variable: unknown, format?: string): boolean {
+    const plugin = findPlugin(Is.validate(variable));
+    return Boolean(plugin) && (format === undefined || (plugin as VariablePlugin).format === format);
+  }
+  protected static StringFormat(variable: unknown, format: StringFormatOption): boolean {
+    const schema = Is.validate(variable);
+    return schema["type"] === "string" && schema["format"] === format;
+  }
+
+  /**
+   * Resolve which input control should be used to display a property.
+   * @example
+   * import { Variable as V, Is } from "@flyyer/variables";
+   * export const schema = V.Object({
+   *   image: V.Image(),
+   *   color: V.Nullable(V.ColorHex()),
+   * });
+   * Is.kindOf(schema.properties.image) === "image" // true
+   * Is.kindOf(schema.properties.color) === "color" // true
+   */
+  public static kindOf(variable: unknown): WidgetKind {
+    const schema = Is.validate(variable);
+    if (Is.LocalizedString(schema)) return "localized";
+    if (Is.EnumKeys(schema)) return "enum-keys";
+    if (Is.Enum(schema)) return "enum";
+    const plugin = findPlugin(schema);
+    if (plugin) return plugin.kind || "text";
+    if (Is.Price(schema)) return "price";
+    if (Is.Currency(schema)) return "currency";
+    if (Is.Country(schema)) return "country";
+    if (Is.Phone(schema)) return "phone";
+    if (Is.Address(schema)) return "address";
+    if (Is.Image(schema)) return "image";
+    if (Is.Font(schema)) return "font";
+    if (Is.RichText(schema)) return "richtext";
+    if (Is.URL(schema)) return "url";
+    if (Is.ColorHex(schema) || Is.Color(schema)) return "color";
+    if (Is.Email(schema)) return "email";
+    if (Is.DateTime(schema)) return "datetime";
+    if (Is.Date(schema)) return "date";
+    if (Is.Time(schema)) return "time";
+    if (Is.Integer(schema)) return "integer";
+    if (Is.Number(schema)) return "number";
+    if (Is.Boolean(schema)) return "boolean";
+    if (Is.String(schema)) return "text";
+    if (schema["type"] === "object") return "object";
+    if (schema["type"] === "array") return "array";
+    return "unknown";
   }
 }
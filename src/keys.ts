@@ -0,0 +1,8 @@
+// Prettier 1 can't parse template literal types, they are kept in this file so the other ones are still formatted.
+
+/** Segment `K` appended to the key `P` with the convention of `FlatAdapter` */
+// eslint-disable-next-line prettier/prettier
+type AppendKey<P extends string, K extends string, C extends string> = C extends "dot" ? `${P}.${K}` : C extends "bracket" ? `${P}[${K}]` : `${P}${Capitalize<K>}`;
+
+/** Key of `K` nested in `P` with the convention of `FlatAdapter` */
+export type JoinKey<P extends string, K extends string, C extends string> = P extends "" ? K : AppendKey<P, K, C>;
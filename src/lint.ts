@@ -0,0 +1,156 @@
+import { TSchema } from "@sinclair/typebox";
+import { ValidateFunction } from "ajv";
+
+import { escapePointer } from "./pointer";
+
+import { Is, Validator } from "./index";
+
+export type LintSeverity = "error" | "warning";
+
+export type LintCode =
+  | "not-object"
+  | "unsupported-nesting"
+  | "unsupported-union"
+  | "examples-not-array"
+  | "invalid-default"
+  | "invalid-example"
+  | "enum-default"
+  | "unknown-format";
+
+export interface LintDiagnostic {
+  /** Variable location as JSON Pointer (same as Ajv's `instancePath`). Array items are represented with `*`. */
+  path: string;
+  severity: LintSeverity;
+  code: LintCode;
+  message: string;
+}
+
+const UNION_KEYWORDS = ["anyOf", "oneOf", "allOf"];
+
+/** `allOf` of `V.When` rules is handled by Flyyer.io UI */
+function isUnion(property: any, keyword: string): boolean {
+  const options = property[keyword];
+  if (keyword === "allOf" && Array.isArray(options)) return !options.every(option => option && "if" in option);
+  return keyword in property;
+}
+
+/** Unions handled by Flyyer.io UI */
+function isWidget(property: any): boolean {
+  return Is.LocalizedString(property) || Is.FontDescriptor(property);
+}
+
+function stringify(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * Check if a schema is compatible with Flyyer.io dashboard and if its `default` and `examples` values are valid.
+ *
+ * Diagnostics with severity `"error"` will fail at runtime, `"warning"` means it works via API but not on Flyyer.io UI.
+ * @example
+ * import { Variable as V, lint } from "@flyyer/variables";
+ * export const schema = V.Object({
+ *   title: V.String({ examples: "Hello" }),
+ * });
+ * it("schema is compatible with flyyer.io", () => {
+ *   expect(lint(schema)).toEqual([]);
+ * });
+ */
+export function lint(schema: TSchema): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const report = (path: string, severity: LintSeverity, code: LintCode, message: string) => {
+    diagnostics.push({ path, severity, code, message });
+  };
+
+  const root = schema as any;
+  if (root["type"] !== "object" || !root["properties"]) {
+    report("", "error", "not-object", "Schema must be created with `V.Object`");
+    return diagnostics;
+  }
+
+  // Skip meta-schema validation, malformed keywords are reported below.
+  const { ajv } = new Validator(schema, { validateSchema: false });
+  const compile = (property: TSchema): ValidateFunction | null => {
+    try {
+      return ajv.compile(property);
+    } catch (e) {
+      return null;
+    }
+  };
+  const check = (property: TSchema, value: unknown) => {
+    const validate = compile(property);
+    // Same as `Validator.parse`: values are cloned because Ajv mutates them when coercing.
+    return !validate || validate(JSON.parse(JSON.stringify(value)));
+  };
+
+  /** `quiet` skips dashboard compatibility warnings when a parent already has one. */
+  const walk = (property: any, path: string, depth: number, quiet: boolean) => {
+    const type = property["type"];
+    const count = diagnostics.length;
+    if (depth > 0 && !quiet) {
+      if (isWidget(property)) {
+        // Handled by Flyyer.io UI
+      } else if (UNION_KEYWORDS.some(keyword => isUnion(property, keyword)) || Array.isArray(type)) {
+        report(path, "warning", "unsupported-union", "Unions are not handled by Flyyer.io UI");
+      } else if (type === "object" && !Is.Price(property)) {
+        report(
+          path,
+          "warning",
+          "unsupported-nesting",
+          "Nested objects are not handled by Flyyer.io UI, prefer flat keys",
+        );
+      } else if (type === "array" && depth === 1) {
+        report(path, "warning", "unsupported-nesting", "Arrays are not handled by Flyyer.io UI");
+      }
+    }
+
+    const format = property["format"];
+    if (typeof format === "string" && !ajv.formats[format]) {
+      report(path, "error", "unknown-format", `Unknown format ${stringify(format)}`);
+    }
+
+    if ("examples" in property) {
+      const examples = property["examples"];
+      if (!Array.isArray(examples)) {
+        report(path, "error", "examples-not-array", "`examples` must be an array");
+      } else if (depth > 0) {
+        examples.forEach((example, index) => {
+          if (!check(property, example)) {
+            report(path, "error", "invalid-example", `examples[${index}] ${stringify(example)} is not a valid value`);
+          }
+        });
+      }
+    }
+
+    if ("default" in property && property["default"] !== undefined && depth > 0) {
+      const value = property["default"];
+      const enumeration = property["enum"];
+      if (Array.isArray(enumeration)) {
+        if (!enumeration.includes(value) && !(value === null && property["nullable"] === true)) {
+          const allowed = enumeration.map(stringify).join(", ");
+          report(path, "error", "enum-default", `Default ${stringify(value)} is not one of: ${allowed}`);
+        }
+      } else if (!check(property, value)) {
+        report(path, "error", "invalid-default", `Default ${stringify(value)} is not a valid value`);
+      }
+    }
+
+    const silence =
+      quiet || isWidget(property) || diagnostics.slice(count).some(diagnostic => diagnostic.severity === "warning");
+    if (type === "object" && property["properties"]) {
+      for (const key of Object.keys(property["properties"])) {
+        walk(property["properties"][key], `${path}/${escapePointer(key)}`, depth + 1, silence);
+      }
+    } else if (type === "array" && property["items"] && !Array.isArray(property["items"])) {
+      walk(property["items"], `${path}/*`, depth + 1, silence);
+    }
+    for (const keyword of UNION_KEYWORDS) {
+      const options = property[keyword];
+      if (Array.isArray(options)) {
+        options.forEach(option => walk(option, path, depth + 1, silence));
+      }
+    }
+  };
+  walk(root, "", 0, false);
+  return diagnostics;
+}
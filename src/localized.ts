@@ -0,0 +1,64 @@
+import { TSchema } from "@sinclair/typebox";
+
+import { Is } from "./index";
+
+/** Map of BCP 47 locales to texts like `{ "en": "Hello", "es-CL": "Hola" }` */
+export type LocalizedMap = { [locale: string]: string };
+
+export interface LocaleOptions {
+  /** Resolve `V.LocalizedString` values to this BCP 47 locale (with fallbacks). */
+  locale?: string;
+}
+
+/**
+ * Pick the text for `locale` from a map using the chain `es-CL` → `es` → `defaultLocale` → first entry.
+ * @example
+ * import { resolveLocale } from "@flyyer/variables";
+ * resolveLocale({ en: "Hello", es: "Hola" }, "es-CL") === "Hola" // true
+ * resolveLocale({ en: "Hello", es: "Hola" }, "fr", "en") === "Hello" // true
+ */
+export function resolveLocale(
+  value: string | LocalizedMap,
+  locale?: string,
+  defaultLocale?: string,
+): string | undefined {
+  if (typeof value === "string") return value;
+  const keys = Object.keys(value);
+  const find = (candidate: string) => keys.find(key => key.toLowerCase() === candidate.toLowerCase());
+  const chain: string[] = [];
+  if (locale) {
+    const parts = locale.split("-");
+    for (let i = parts.length; i > 0; i--) chain.push(parts.slice(0, i).join("-"));
+  }
+  if (defaultLocale) chain.push(defaultLocale);
+  for (const candidate of chain) {
+    const key = find(candidate);
+    if (key !== undefined) return value[key];
+  }
+  const first = keys[0];
+  return first === undefined ? undefined : value[first];
+}
+
+/**
+ * Returns a copy of `value` with every `V.LocalizedString` resolved to a single string.
+ */
+export function resolveLocalized(schema: TSchema, value: unknown, locale?: string): unknown {
+  if (value === null || value === undefined || !schema) return value;
+  const property = schema as any;
+  if (Is.LocalizedString(property)) {
+    return typeof value === "object" && !Array.isArray(value)
+      ? resolveLocale(value as LocalizedMap, locale, property["defaultLocale"])
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return property["items"] ? value.map(item => resolveLocalized(property["items"], item, locale)) : value;
+  }
+  if (typeof value === "object" && property["properties"]) {
+    const output: { [key: string]: unknown } = { ...(value as any) };
+    for (const key of Object.keys(property["properties"])) {
+      if (key in output) output[key] = resolveLocalized(property["properties"][key], output[key], locale);
+    }
+    return output;
+  }
+  return value;
+}
@@ -0,0 +1,29 @@
+import { normalizeColor } from "./color";
+
+/** E.164 phone number like `+56912345678` */
+export const REGEX_PHONE = /^\+[1-9]\d{1,14}$/;
+
+const REGEX_PHONE_SEPARATORS = /[\s().\-/]/g;
+
+/**
+ * Remove separators from formatted phone numbers and replace the international `00` prefix with `+`.
+ *
+ * Values that are not E.164 after cleaning are returned as they are.
+ * @example
+ * import { normalizePhone } from "@flyyer/variables";
+ * normalizePhone("+56 9 1234 5678") === "+56912345678" // true
+ * normalizePhone("0056 (9) 1234-5678") === "+56912345678" // true
+ */
+export function normalizePhone(value: string): string {
+  const cleaned = value.trim().replace(REGEX_PHONE_SEPARATORS, "");
+  const phone = cleaned.startsWith("00") ? "+" + cleaned.slice(2) : cleaned;
+  return REGEX_PHONE.test(phone) ? phone : value;
+}
+
+/**
+ * Functions used by the non-standard `normalize` keyword, values are replaced before validating their format.
+ */
+export const NORMALIZERS: { [name: string]: (value: string) => string } = {
+  phone: normalizePhone,
+  color: normalizeColor,
+};
@@ -0,0 +1,222 @@
+import { TSchema } from "@sinclair/typebox";
+
+import { COUNTRY_CODES } from "./countries";
+import { CURRENCY_CODES } from "./currencies";
+import { imageMimeTypes } from "./image";
+import { REGEX_PHONE } from "./normalize";
+
+import { Is } from "./index";
+
+/** JSON Schema (draft 2020-12, as used by OpenAPI 3.1) returned by `toOpenAPISchema` */
+export type OpenAPISchema = { [key: string]: unknown };
+
+export interface OpenAPIParameter {
+  /** Query-string key with the bracket notation of `QueryCodec`, like `title[text]` or `tags[]` */
+  name: string;
+  in: "query";
+  description?: string;
+  /** `false` when the variable has a `default` (render URLs can skip it) */
+  required: boolean;
+  style?: "form" | "deepObject";
+  explode?: boolean;
+  schema: OpenAPISchema;
+  example?: unknown;
+}
+
+export interface OpenAPIDocument {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description?: string };
+  paths?: { [path: string]: unknown };
+  components: {
+    parameters: { [name: string]: OpenAPIParameter };
+    schemas: { [name: string]: OpenAPISchema };
+  };
+}
+
+export interface OpenAPIOptions {
+  /** Title of the document. Defaults to the `title` of the schema or `"Template variables"` */
+  title?: string;
+  /** Version of the document. Defaults to `"1.0.0"` */
+  version?: string;
+  /** Name of the schema of the variables in `components.schemas`. Defaults to `"Variables"` */
+  name?: string;
+  /** Render URL path (like `/v2/{tenant}/{deck}/{template}`) documented as a `GET` with every parameter. */
+  path?: string;
+}
+
+/** Keywords that only have meaning for this package */
+const NON_STANDARD = [
+  "kind",
+  "modifier",
+  "enumKeys",
+  "localized",
+  "defaultLocale",
+  "normalize",
+  "schemaVersion",
+  "font",
+  "richText",
+  "colorSyntaxes",
+  "mimeTypes",
+  "extensions",
+  "minWidth",
+  "minHeight",
+  "aspectRatio",
+  "when",
+  "nullable",
+];
+
+/** Same as `REGEX_COLOR_HEX` without flags, JSON Schema patterns are case-sensitive */
+const PATTERN_COLOR_HEX = "^#?([0-9A-Fa-f]{3}|[0-9A-Fa-f]{4}|[0-9A-Fa-f]{6}|[0-9A-Fa-f]{8})$";
+
+/** Custom formats of `Validator` described with standard keywords (the `format` is kept as a hint) */
+const FORMATS: { [format: string]: OpenAPISchema } = {
+  "color-hex": { pattern: PATTERN_COLOR_HEX },
+  currency: { enum: CURRENCY_CODES },
+  country: { enum: COUNTRY_CODES },
+  phone: { pattern: REGEX_PHONE.source },
+};
+
+/** Component names can only have letters, digits, `.`, `-` and `_` */
+function componentName(segments: string[]): string {
+  return segments.map(segment => segment.replace(/[^A-Za-z0-9.\-_]/g, "_") || "_").join(".");
+}
+
+function isDeep(property: any): boolean {
+  return Is.LocalizedString(property) || property["patternProperties"] !== undefined;
+}
+
+/**
+ * Convert a schema into standard JSON Schema as used by OpenAPI 3.1: non-standard keywords are removed, `nullable`
+ * becomes a `"null"` type, custom formats like `color-hex`, `currency` or `phone` get a `pattern` or `enum` and the
+ * `mimeTypes` and `extensions` of `V.Image` become `contentMediaType`.
+ * @example
+ * import { Variable as V, toOpenAPISchema } from "@flyyer/variables";
+ * toOpenAPISchema(V.Nullable(V.ColorHex({ default: "#FFFFFF" })));
+ * // { type: ["string", "null"], format: "color-hex", pattern: "^#?(...)$", default: "#FFFFFF" }
+ */
+export function toOpenAPISchema(schema: TSchema): OpenAPISchema {
+  const convert = (property: unknown): unknown => {
+    if (Array.isArray(property)) return property.map(convert);
+    if (!property || typeof property !== "object") return property;
+    const input = property as { [key: string]: unknown };
+    const output: OpenAPISchema = {};
+    for (const key of Object.keys(input)) {
+      const value = input[key];
+      if (NON_STANDARD.includes(key)) continue;
+      if (["default", "examples", "enum", "const"].includes(key)) {
+        // Values are data, not schemas
+        output[key] = value;
+      } else if ((key === "properties" || key === "patternProperties") && value && typeof value === "object") {
+        // Keys are names, not keywords
+        const schemas: OpenAPISchema = {};
+        for (const name of Object.keys(value)) schemas[name] = convert((value as OpenAPISchema)[name]);
+        output[key] = schemas;
+      } else {
+        output[key] = convert(value);
+      }
+    }
+    const format = input["format"];
+    if (typeof format === "string" && FORMATS[format]) Object.assign(output, FORMATS[format]);
+    const mimeTypes = Is.Image(input) ? imageMimeTypes(input) : undefined;
+    if (mimeTypes && mimeTypes.length === 1) {
+      output["contentMediaType"] = mimeTypes[0];
+    } else if (mimeTypes && mimeTypes.length > 1) {
+      delete output["contentMediaType"];
+      output["anyOf"] = mimeTypes.map(contentMediaType => ({ contentMediaType }));
+    }
+    if (input["nullable"] === true) {
+      const type = output["type"];
+      if (typeof type === "string") output["type"] = [type, "null"];
+      if (Array.isArray(type) && !type.includes("null")) output["type"] = [...type, "null"];
+      if (Array.isArray(output["anyOf"])) output["anyOf"] = [...(output["anyOf"] as unknown[]), { type: "null" }];
+      if (Array.isArray(output["enum"]) && !output["enum"].includes(null)) output["enum"] = [...output["enum"], null];
+    }
+    return output;
+  };
+  return convert(schema) as OpenAPISchema;
+}
+
+/**
+ * Query-string parameters of the render URLs of a `V.Object` schema, nested keys are flattened with the bracket
+ * notation of `QueryCodec` (`title[text]`) and arrays of values use `tags[]`. Localized texts, records and arrays of
+ * objects are single `deepObject` parameters.
+ * @example
+ * import { Variable as V, toOpenAPIParameters } from "@flyyer/variables";
+ * const schema = V.Object({ title: V.Object({ text: V.String(), color: V.ColorHex({ default: "#FFFFFF" }) }) });
+ * toOpenAPIParameters(schema).map(parameter => parameter.name); // ["title[text]", "title[color]"]
+ */
+export function toOpenAPIParameters(schema: TSchema): OpenAPIParameter[] {
+  const parameters: OpenAPIParameter[] = [];
+  const walk = (property: any, segments: string[], required: boolean) => {
+    const properties = property["properties"];
+    if (segments.length === 0 || (properties && property["type"] === "object" && !isDeep(property))) {
+      const keys: string[] = property["required"] || [];
+      for (const key of Object.keys(properties || {})) {
+        // Properties of `null` objects are missing too
+        const nullable = property["nullable"] === true;
+        walk(properties[key], [...segments, key], required && !nullable && keys.includes(key));
+      }
+      return;
+    }
+    const [head = "", ...rest] = segments;
+    const name = head + rest.map(segment => `[${segment}]`).join("");
+    const parameter: OpenAPIParameter = {
+      name,
+      in: "query",
+      required: required && property["default"] === undefined,
+      schema: toOpenAPISchema(property),
+    };
+    const text = property["description"] || property["title"];
+    if (typeof text === "string") parameter.description = text;
+    const items = property["items"];
+    if (property["type"] === "array" && items && !Array.isArray(items) && items["type"] !== "object") {
+      Object.assign(parameter, { name: `${name}[]`, style: "form", explode: true });
+    } else if (property["type"] === "array" || property["type"] === "object" || isDeep(property)) {
+      Object.assign(parameter, { style: "deepObject", explode: true });
+    }
+    const examples = property["examples"];
+    if (Array.isArray(examples) && examples.length > 0) parameter.example = examples[0];
+    parameters.push(parameter);
+  };
+  walk(schema, [], true);
+  return parameters;
+}
+
+/**
+ * OpenAPI 3.1 document with the render URL query-string parameters of a template (see `toOpenAPIParameters`) and the
+ * JSON Schema of its variables (see `toOpenAPISchema`).
+ * @example
+ * import { writeFileSync } from "fs";
+ * import { toOpenAPI } from "@flyyer/variables";
+ * import { schema } from "./templates/main";
+ * const document = toOpenAPI(schema, { title: "Main template", path: "/v2/{tenant}/{deck}/main" });
+ * writeFileSync("openapi.json", JSON.stringify(document, null, 2));
+ */
+export function toOpenAPI(schema: TSchema, options: OpenAPIOptions = {}): OpenAPIDocument {
+  const title = (schema as any)["title"];
+  const { version = "1.0.0", name = "Variables", path } = options;
+  const parameters: { [name: string]: OpenAPIParameter } = {};
+  for (const parameter of toOpenAPIParameters(schema)) {
+    parameters[componentName(parameter.name.replace(/\[?\]$/, "").split(/\]?\[/))] = parameter;
+  }
+  const info: OpenAPIDocument["info"] = {
+    title: options.title || (typeof title === "string" ? title : "Template variables"),
+    version,
+  };
+  const description = (schema as any)["description"];
+  if (typeof description === "string") info.description = description;
+  const document: OpenAPIDocument = {
+    openapi: "3.1.0",
+    info,
+    components: { parameters, schemas: { [name]: toOpenAPISchema(schema) } },
+  };
+  if (path) {
+    const refs = Object.keys(parameters).map(key => ({ $ref: `#/components/parameters/${key}` }));
+    document.paths = {
+      [path]: {
+        get: { summary: info.title, parameters: refs, responses: { "200": { description: "Rendered image" } } },
+      },
+    };
+  }
+  return document;
+}
@@ -0,0 +1,121 @@
+import { TSchema } from "@sinclair/typebox";
+import Ajv from "ajv";
+import { formatNames } from "ajv-formats/dist/formats";
+
+import { NORMALIZERS } from "./normalize";
+
+import { WidgetKind } from "./index";
+
+/**
+ * Custom variable type registered with `V.use`.
+ * - `O`: options of the builder method.
+ * - `T`: schema returned by the builder method.
+ */
+export interface VariablePlugin<N extends string = string, O = any, T extends TSchema = TSchema> {
+  /** Name of the builder method, like `"Slug"` for `V.Slug()` */
+  name: N;
+  /** Value of the `format` keyword of the schemas, like `"slug"` */
+  format: string;
+  /** Format validator added to Ajv by `Validator`, values are always strings. */
+  validate: RegExp | ((value: string) => boolean);
+  /** Builder method, defaults to a String schema with `format` (same as `V.Email`). */
+  build?: (options: O) => T;
+  /** Guard of `Is.Plugin` and `Is.kindOf`, defaults to String schemas with `format`. */
+  is?: (variable: any) => boolean;
+  /** Input control of Flyyer.io UI returned by `Is.kindOf`, defaults to `"text"` */
+  kind?: WidgetKind;
+  /** Replace values before validating their format (same as `V.Phone`), like trimming or changing the case. */
+  coerce?: (value: string) => string;
+}
+
+/** Formats of `Validator.createAjv`, plugins can't replace them. */
+const RESERVED_FORMATS: string[] = [
+  ...formatNames,
+  "color-hex",
+  "color",
+  "currency",
+  "price",
+  "country",
+  "phone",
+  "address",
+];
+
+/** Registered plugins by `format` */
+const PLUGINS = new Map<string, VariablePlugin>();
+
+/** Same format validator, regular expressions are compared by source and flags */
+function sameValidator(a: VariablePlugin["validate"], b: VariablePlugin["validate"]): boolean {
+  if (a instanceof RegExp && b instanceof RegExp) return a.source === b.source && a.flags === b.flags;
+  return a === b;
+}
+
+/**
+ * Register a plugin so `Validator`, `Is` and `NORMALIZERS` know its format. Prefer `V.use`, which also adds the builder
+ * method. Registering a plugin with the same `format` replaces the previous one, but its `validate` can't change until
+ * the format is removed with `unregisterPlugin`.
+ */
+export function registerPlugin(plugin: VariablePlugin): void {
+  const { format, coerce } = plugin;
+  if (RESERVED_FORMATS.includes(format)) {
+    throw new Error(`Format "${format}" of plugin ${plugin.name} is already defined by Validator`);
+  }
+  const previous = PLUGINS.get(format);
+  if (previous && !sameValidator(previous.validate, plugin.validate)) {
+    throw new Error(`Format "${format}" of plugin ${plugin.name} is already defined by plugin ${previous.name}`);
+  }
+  if (previous && previous.coerce && NORMALIZERS[format] === previous.coerce) delete NORMALIZERS[format];
+  if (coerce) NORMALIZERS[format] = coerce;
+  PLUGINS.set(format, plugin);
+}
+
+/**
+ * Remove the plugin of a `format`, like between tests. Builder methods created by `V.use` keep working but `Validator`,
+ * `Is` and `NORMALIZERS` no longer know the format. Returns `false` when no plugin has the format.
+ */
+export function unregisterPlugin(format: string): boolean {
+  const plugin = PLUGINS.get(format);
+  if (!plugin) return false;
+  if (plugin.coerce && NORMALIZERS[format] === plugin.coerce) delete NORMALIZERS[format];
+  return PLUGINS.delete(format);
+}
+
+/** Every registered plugin, in the order they were registered. */
+export function plugins(): VariablePlugin[] {
+  return Array.from(PLUGINS.values());
+}
+
+/** Registered plugin whose guard matches the schema */
+export function findPlugin(variable: unknown): VariablePlugin | undefined {
+  const schema = variable as any;
+  return plugins().find(plugin =>
+    plugin.is ? plugin.is(schema) : schema["type"] === "string" && schema["format"] === plugin.format,
+  );
+}
+
+/** Format validator that checks values with the plugin registered when validating, unknown formats are valid. */
+function pluginFormat(format: string): (value: string) => boolean {
+  return value => {
+    const plugin = PLUGINS.get(format);
+    if (!plugin) return true;
+    return typeof plugin.validate === "function" ? plugin.validate(value) : plugin.validate.test(value);
+  };
+}
+
+/**
+ * Add to Ajv the formats of registered plugins used by the schema, except the ones Ajv already knows. Ajv keeps the
+ * first validator of each format, so the added ones always check values with the plugin registered at that moment.
+ */
+export function addPluginFormats(ajv: Ajv, schema: unknown): void {
+  const walk = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(walk);
+    } else if (value && typeof value === "object") {
+      const format = (value as any)["format"];
+      if (typeof format === "string" && PLUGINS.has(format) && !ajv.formats[format]) {
+        ajv.addFormat(format, pluginFormat(format));
+      }
+      Object.keys(value).forEach(key => key !== "default" && key !== "examples" && walk((value as any)[key]));
+    }
+  };
+  walk(schema);
+}
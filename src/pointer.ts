@@ -0,0 +1,4 @@
+/** Escape a key for a JSON Pointer: `~` becomes `~0` and `/` becomes `~1` */
+export function escapePointer(key: string): string {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
@@ -0,0 +1,144 @@
+import { TSchema } from "@sinclair/typebox";
+import Ajv, { Options } from "ajv";
+import { FormatsPluginOptions } from "ajv-formats";
+
+import { toJSON } from "./serialize";
+import { MIGRATIONS } from "./versioned";
+
+import { Static, Validator } from "./index";
+
+export interface ValidatorRegistryOptions {
+  /** Maximum amount of schemas to keep compiled, the least recently used is removed. Defaults to `100`, `0` keeps none */
+  maxSize?: number;
+  /** Options for https://github.com/ajv-validator/ajv (merged with `Validator.DEFAULT_OPTIONS`) */
+  options?: Options;
+  /** Options for https://github.com/ajv-validator/ajv-formats (merged with `Validator.DEFAULT_FORMATS_OPTIONS`) */
+  formatOptions?: FormatsPluginOptions;
+}
+
+/** JSON with sorted keys, `required` is sorted too because its order doesn't matter. */
+function stableStringify(value: unknown, key?: string): string {
+  if (Array.isArray(value)) {
+    const items = value.map(item => stableStringify(item));
+    return `[${(key === "required" ? items.sort() : items).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const object = value as { [key: string]: unknown };
+    const keys = Object.keys(object)
+      .filter(key => object[key] !== undefined)
+      .sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${stableStringify(object[key], key)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** FNV-1a */
+function fnv(text: string, seed: number): string {
+  let h = seed;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Stable content hash of a schema, the order of keys and properties doesn't matter. Functions like `V.Versioned` migrations are not included.
+ * @example
+ * import { Variable as V, schemaHash } from "@flyyer/variables";
+ * schemaHash(V.Object({ a: V.String(), b: V.String() })) === schemaHash(V.Object({ b: V.String(), a: V.String() })) // true
+ */
+export function schemaHash(schema: TSchema): string {
+  const text = stableStringify(toJSON(schema));
+  return fnv(text, 0x811c9dc5) + fnv(text, 0x050c5d1f);
+}
+
+/** Identity of `V.Versioned` migrations, functions can't be hashed */
+const MIGRATION_IDS = new WeakMap<object, number>();
+let migrationCount = 0;
+
+/** `schemaHash` plus the identity of the migrations of `V.Versioned` schemas */
+function registryKey(schema: TSchema): string {
+  const hash = schemaHash(schema);
+  const migrations = (schema as any)[MIGRATIONS];
+  if (!migrations) return hash;
+  if (!MIGRATION_IDS.has(migrations)) MIGRATION_IDS.set(migrations, ++migrationCount);
+  return `${hash}/migrations-${MIGRATION_IDS.get(migrations)}`;
+}
+
+/**
+ * Share one configured Ajv instance between many schemas. Schemas are compiled when first used and the least recently
+ * used are removed after `maxSize`.
+ * @example
+ * import { ValidatorRegistry } from "@flyyer/variables";
+ * const registry = new ValidatorRegistry({ maxSize: 500 });
+ * // Keyed by template id
+ * const validator = registry.get(template.schema, template.id);
+ * const { data, isValid } = validator.parse(variables);
+ * // Keyed by content hash
+ * registry.get(schema).validate(variables);
+ */
+export class ValidatorRegistry {
+  public static DEFAULT_MAX_SIZE = 100;
+
+  /** Shared instance of AJV */
+  public readonly ajv: Ajv;
+  public readonly maxSize: number;
+  /** Sorted from least to most recently used */
+  protected readonly validators = new Map<string, Validator<any, any>>();
+
+  public constructor(options: ValidatorRegistryOptions = {}) {
+    this.ajv = Validator.createAjv(options.options, options.formatOptions);
+    this.maxSize = options.maxSize === undefined ? ValidatorRegistry.DEFAULT_MAX_SIZE : options.maxSize;
+  }
+
+  /** Amount of registered schemas */
+  public size(): number {
+    return this.validators.size;
+  }
+
+  /**
+   * Get the validator of a schema, registering it when missing. `id` defaults to `schemaHash(schema)`, schemas created
+   * with `V.Versioned` also include the identity of their migrations.
+   *
+   * Throws an `Error` when a different schema is registered with `id`, call `delete(id)` first.
+   */
+  public get<U extends TSchema>(schema: U, id: string = registryKey(schema)): Validator<U, Static<U>> {
+    const existing = this.validators.get(id);
+    if (existing) {
+      if (existing.schema !== schema && registryKey(existing.schema) !== registryKey(schema)) {
+        throw new Error(`A different schema is registered with id "${id}"`);
+      }
+      // Move to the end (most recently used)
+      this.validators.delete(id);
+      this.validators.set(id, existing);
+      return existing;
+    }
+    const validator = new Validator<U, Static<U>>(schema, this.ajv);
+    this.validators.set(id, validator);
+    while (this.validators.size > this.maxSize) {
+      const oldest: string = this.validators.keys().next().value;
+      this.delete(oldest);
+    }
+    return validator;
+  }
+
+  public has(id: string): boolean {
+    return this.validators.has(id);
+  }
+
+  /** Remove a schema, returns `false` if it wasn't registered. */
+  public delete(id: string): boolean {
+    const validator = this.validators.get(id);
+    if (!validator) return false;
+    this.validators.delete(id);
+    // Same schema may be registered with another `id`
+    const shared = Array.from(this.validators.values()).some(other => other.key === validator.key);
+    if (!shared) this.ajv.removeSchema(validator.key);
+    return true;
+  }
+
+  public clear(): void {
+    Array.from(this.validators.keys()).forEach(id => this.delete(id));
+  }
+}
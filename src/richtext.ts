@@ -0,0 +1,346 @@
+export const RICH_TEXT_MARKS = ["bold", "italic", "code", "link"] as const;
+export type RichTextMark = typeof RICH_TEXT_MARKS[number];
+
+/** Piece of text with the same marks, `href` is only set with the `link` mark. */
+export interface RichTextSpan {
+  /** Plain text, line breaks are kept as `\n` */
+  text: string;
+  /** In the order they were opened */
+  marks: RichTextMark[];
+  href?: string;
+}
+
+export interface RichTextParagraph {
+  type: "paragraph";
+  children: RichTextSpan[];
+}
+
+/** Settings stored in the `richText` keyword of `V.RichText` schemas. */
+export interface RichTextConstraints {
+  /** Allowed marks, defaults to all of `RICH_TEXT_MARKS`. The syntax of other marks is kept as plain text. */
+  marks?: RichTextMark[];
+  /**
+   * Value of `Validator.parse`:
+   * - `"markdown"` (default) keeps the source text.
+   * - `"ast"` replaces it with `RichTextParagraph[]`.
+   * - `"html"` replaces it with the output of `renderRichText`.
+   */
+  output?: "markdown" | "ast" | "html";
+}
+
+/** Links can only use these protocols or be relative */
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+const REGEX_PROTOCOL = /^([a-z][a-z0-9+.-]*:)/i;
+const REGEX_WORD = /[\p{L}\p{N}]/u;
+const ESCAPABLE = "\\`*_[]()#";
+
+/** `true` for `http`, `https` and `mailto` URLs or relative ones. */
+export function isSafeLink(href: string): boolean {
+  // Browsers ignore control characters and whitespace inside the protocol (`java\tscript:`)
+  // eslint-disable-next-line no-control-regex
+  const match = REGEX_PROTOCOL.exec(href.replace(/[\u0000- ]/g, ""));
+  return !match || SAFE_PROTOCOLS.includes((match[1] as string).toLowerCase());
+}
+
+function isWord(character: string | undefined): boolean {
+  return character !== undefined && REGEX_WORD.test(character);
+}
+
+/** Text, or a mark wrapping a list of nodes, in a doubly linked list so wrapping a range doesn't copy it */
+interface InlineNode {
+  text: string;
+  mark?: RichTextMark;
+  href?: string;
+  first?: InlineNode | null;
+  previous: InlineNode | null;
+  next: InlineNode | null;
+}
+
+/** Run of `*` or `_` that can still open or close emphasis */
+interface Delimiter {
+  node: InlineNode;
+  character: string;
+  count: number;
+  canOpen: boolean;
+  canClose: boolean;
+  previous: Delimiter | null;
+  next: Delimiter | null;
+}
+
+interface Frame {
+  node: InlineNode | null | undefined;
+  marks: RichTextMark[];
+  href?: string;
+}
+
+/** Thrown by `parseInline` on unsafe links */
+class RichTextError extends Error {}
+
+/**
+ * Parse inline marks in a single pass, emphasis is matched with a stack of delimiters like CommonMark so the time is
+ * linear on the length of the text.
+ */
+function parseInline(text: string, allowed: readonly RichTextMark[]): RichTextSpan[] {
+  const head: InlineNode = { text: "", previous: null, next: null };
+  let tail = head;
+  const append = (node: InlineNode) => {
+    node.previous = tail;
+    tail.next = node;
+    tail = node;
+    return node;
+  };
+  let buffer = "";
+  const flush = () => {
+    if (buffer) append({ text: buffer, previous: null, next: null });
+    buffer = "";
+  };
+  /** Top of the stack of delimiters */
+  let top: Delimiter | null = null;
+  const remove = (delimiter: Delimiter) => {
+    if (delimiter.previous) delimiter.previous.next = delimiter.next;
+    if (delimiter.next) delimiter.next.previous = delimiter.previous;
+    if (top === delimiter) top = delimiter.previous;
+  };
+  /** Wrap the nodes between `from` and `to` (both excluded) with a mark */
+  const wrap = (from: InlineNode, to: InlineNode | null, mark: RichTextMark, href?: string) => {
+    const first = from.next === to ? null : from.next;
+    const last = to ? to.previous : tail;
+    const element: InlineNode = { text: "", mark, first, previous: from, next: to };
+    if (href !== undefined) element.href = href;
+    if (first && last) {
+      first.previous = null;
+      last.next = null;
+    }
+    from.next = element;
+    if (to) to.previous = element;
+    else tail = element;
+  };
+  // Match closers with the nearest opener above `bottom`
+  const processEmphasis = (bottom: Delimiter | null) => {
+    let closer = top === bottom ? null : top;
+    while (closer && closer.previous !== bottom) closer = closer.previous;
+    const openersBottom: { [character: string]: Delimiter | null } = { "*": bottom, _: bottom };
+    while (closer) {
+      if (!closer.canClose) {
+        closer = closer.next;
+        continue;
+      }
+      let opener = closer.previous;
+      let mark: RichTextMark | null = null;
+      while (opener && opener !== bottom && opener !== openersBottom[closer.character]) {
+        if (opener.character === closer.character && opener.canOpen) {
+          mark = opener.count >= 2 && closer.count >= 2 ? "bold" : "italic";
+          if (allowed.includes(mark)) break;
+          mark = null;
+        }
+        opener = opener.previous;
+      }
+      if (!opener || !mark || opener === bottom || opener === openersBottom[closer.character]) {
+        openersBottom[closer.character] = closer.previous;
+        const next: Delimiter | null = closer.next;
+        if (!closer.canOpen) remove(closer);
+        closer = next;
+        continue;
+      }
+      const count = mark === "bold" ? 2 : 1;
+      opener.count -= count;
+      closer.count -= count;
+      opener.node.text = opener.node.text.slice(count);
+      closer.node.text = closer.node.text.slice(count);
+      wrap(opener.node, closer.node, mark);
+      // Delimiters inside the mark can't be matched with the ones outside
+      opener.next = closer;
+      closer.previous = opener;
+      if (opener.count === 0) remove(opener);
+      if (closer.count === 0) {
+        const next: Delimiter | null = closer.next;
+        remove(closer);
+        closer = next;
+      }
+    }
+    // Unmatched delimiters stay as text
+    top = bottom;
+    if (bottom) bottom.next = null;
+  };
+
+  const brackets: { node: InlineNode; bottom: Delimiter | null }[] = [];
+  // Positions of the next `` ` `` and `)`, cached so unmatched ones are not searched again
+  let tick = -2;
+  let paren = -2;
+  let i = 0;
+  while (i < text.length) {
+    const character = text[i] as string;
+    if (character === "\\" && ESCAPABLE.includes(text[i + 1] || "")) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+    if (character === "`" && allowed.includes("code")) {
+      if (tick !== -1 && tick <= i) tick = text.indexOf("`", i + 1);
+      if (tick > i + 1) {
+        flush();
+        const node = append({ text: "", previous: null, next: null });
+        append({ text: text.slice(i + 1, tick), previous: null, next: null });
+        wrap(node, null, "code");
+        i = tick + 1;
+        continue;
+      }
+    }
+    if (character === "*" || character === "_") {
+      let end = i;
+      while (text[end] === character) end++;
+      const before = text[i - 1];
+      const after = text[end];
+      const delimiter: Delimiter = {
+        node: { text: text.slice(i, end), previous: null, next: null },
+        character,
+        count: end - i,
+        // Like Markdown, emphasis can't open before a space or close after one and `_` doesn't work inside words
+        canOpen: /\S/.test(after || "") && !(character === "_" && isWord(before)),
+        canClose: /\S/.test(before || "") && !(character === "_" && isWord(after)),
+        previous: top,
+        next: null,
+      };
+      if (delimiter.canOpen || delimiter.canClose) {
+        flush();
+        append(delimiter.node);
+        if (top) top.next = delimiter;
+        top = delimiter;
+      } else {
+        buffer += delimiter.node.text;
+      }
+      i = end;
+      continue;
+    }
+    if (character === "[" && allowed.includes("link")) {
+      flush();
+      brackets.push({ node: append({ text: "[", previous: null, next: null }), bottom: top });
+      i++;
+      continue;
+    }
+    const opener = brackets[brackets.length - 1];
+    if (character === "]" && opener) {
+      brackets.pop();
+      if (paren !== -1 && paren <= i + 1) paren = text.indexOf(")", i + 2);
+      if (text[i + 1] === "(" && paren !== -1 && (buffer || tail !== opener.node)) {
+        const url = text.slice(i + 2, paren).trim();
+        if (!isSafeLink(url)) throw new RichTextError(`Unsafe link ${url}`);
+        flush();
+        processEmphasis(opener.bottom);
+        opener.node.text = "";
+        wrap(opener.node, null, "link", url);
+        // Links can't contain links
+        brackets.length = 0;
+        i = paren + 1;
+        continue;
+      }
+    }
+    buffer += character;
+    i++;
+  }
+  flush();
+  processEmphasis(null);
+
+  // Spans from the tree, without recursion because emphasis can be deeply nested
+  const spans: RichTextSpan[] = [];
+  const stack: Frame[] = [{ node: head.next, marks: [] }];
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1] as Frame;
+    const node = frame.node;
+    if (!node) {
+      stack.pop();
+      continue;
+    }
+    frame.node = node.next;
+    if (node.mark) {
+      const marks = frame.marks.includes(node.mark) ? frame.marks : [...frame.marks, node.mark];
+      stack.push({ node: node.first, marks, href: node.href === undefined ? frame.href : node.href });
+    } else if (node.text) {
+      spans.push(
+        frame.href === undefined
+          ? { text: node.text, marks: frame.marks }
+          : { text: node.text, marks: frame.marks, href: frame.href },
+      );
+    }
+  }
+  return spans;
+}
+
+/** Join consecutive spans with the same marks and link */
+function merge(spans: RichTextSpan[]): RichTextSpan[] {
+  const output: RichTextSpan[] = [];
+  for (const span of spans) {
+    const last = output[output.length - 1];
+    if (last && last.href === span.href && last.marks.join() === span.marks.join()) {
+      last.text += span.text;
+    } else {
+      output.push({ ...span });
+    }
+  }
+  return output;
+}
+
+/**
+ * Parse a Markdown subset: paragraphs (separated by blank lines), line breaks, `**bold**`, `*italic*`, `` `code` ``
+ * and `[links](https://flyyer.io)`. Syntax of marks that are not allowed (and HTML) is kept as plain text.
+ *
+ * Returns `null` for links that are not `http`, `https`, `mailto` or relative (like `javascript:`).
+ * @example
+ * import { parseRichText } from "@flyyer/variables";
+ * parseRichText("Hello **world**");
+ * // [{ type: "paragraph", children: [{ text: "Hello ", marks: [] }, { text: "world", marks: ["bold"] }] }]
+ */
+export function parseRichText(value: unknown, constraints: RichTextConstraints = {}): RichTextParagraph[] | null {
+  if (typeof value !== "string") return null;
+  const allowed = constraints.marks || RICH_TEXT_MARKS;
+  const blocks = value
+    .replace(/\r\n?/g, "\n")
+    .split(/\n[ \t]*\n/)
+    .map(block => block.trim())
+    .filter(Boolean);
+  try {
+    return blocks.map(block => ({ type: "paragraph", children: merge(parseInline(block, allowed)) }));
+  } catch (e) {
+    if (e instanceof RichTextError) return null;
+    throw e;
+  }
+}
+
+const HTML_ESCAPES: { [character: string]: string } = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+function escapeHTML(text: string): string {
+  return text.replace(/[&<>"']/g, character => HTML_ESCAPES[character] || character);
+}
+
+const TAGS: Record<Exclude<RichTextMark, "link">, string> = { bold: "strong", italic: "em", code: "code" };
+
+/**
+ * Safe HTML of parsed rich text: text is escaped and only `<p>`, `<br>`, `<strong>`, `<em>`, `<code>` and `<a>` are used.
+ * @example
+ * import { parseRichText, renderRichText } from "@flyyer/variables";
+ * renderRichText(parseRichText("Hello **world**\n<script>"));
+ * // "<p>Hello <strong>world</strong><br>&lt;script&gt;</p>"
+ */
+export function renderRichText(paragraphs: RichTextParagraph[] | null): string {
+  return (paragraphs || [])
+    .map(paragraph => {
+      const html = paragraph.children.map(span => {
+        let output = escapeHTML(span.text).replace(/\n/g, "<br>");
+        for (const mark of span.marks.slice().reverse()) {
+          if (mark !== "link") output = `<${TAGS[mark]}>${output}</${TAGS[mark]}>`;
+        }
+        if (span.href !== undefined) {
+          output = `<a href="${escapeHTML(span.href)}" rel="noopener noreferrer">${output}</a>`;
+        }
+        return output;
+      });
+      return `<p>${html.join("")}</p>`;
+    })
+    .join("");
+}
@@ -0,0 +1,194 @@
+import { TSchema } from "@sinclair/typebox";
+
+import { parseFont } from "./font";
+import { humanize } from "./form";
+import { parseRichText, renderRichText } from "./richtext";
+
+import { Is, Static } from "./index";
+
+export interface SampleOptions {
+  /**
+   * Use the nth value of `examples` (wraps around when a property has fewer examples, `-1` is the last one). Defaults to
+   * `0` (first example).
+   */
+  index?: number;
+  /** Seed for placeholders of properties without `examples` or `default`. Defaults to `index`. */
+  seed?: number;
+  /** Include properties created with `V.Optional`. Defaults to `true`. */
+  optional?: boolean;
+}
+
+const FONTS = ["Inter", "Roboto", "Open Sans", "Lato", "Montserrat", "Poppins"];
+const DAY = 24 * 60 * 60 * 1000;
+const EPOCH = Date.UTC(2021, 0, 1);
+
+/** FNV-1a */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Deterministic random number generator (mulberry32), returns values in `[0, 1)`. */
+function generator(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function bounds(property: any, step: number): [number, number] {
+  let min = typeof property["minimum"] === "number" ? property["minimum"] : 0;
+  let max = typeof property["maximum"] === "number" ? property["maximum"] : Math.max(min, 0) + 100;
+  if (typeof property["exclusiveMinimum"] === "number") min = Math.max(min, property["exclusiveMinimum"] + step);
+  if (typeof property["exclusiveMaximum"] === "number") max = Math.min(max, property["exclusiveMaximum"] - step);
+  return [min, Math.max(min, max)];
+}
+
+/**
+ * Create variables to render a preview of a template. Same as Flyyer.io: the first value of `examples` of each property with fallback to `default`.
+ *
+ * Properties without both get a deterministic placeholder based on their format (color, date, email, image, etc.) and the `seed`.
+ * @example
+ * import { Variable as V, sample } from "@flyyer/variables";
+ * export const schema = V.Object({
+ *   title: V.String({ examples: ["Hello", "World"] }),
+ *   color: V.ColorHex({ default: "#FFFFFF" }),
+ *   image: V.Image(),
+ * });
+ * sample(schema); // { title: "Hello", color: "#FFFFFF", image: "https://picsum.photos/seed/.../1200/630" }
+ * // Gallery
+ * [0, 1, 2].map(index => sample(schema, { index }));
+ */
+export function sample<U extends TSchema>(schema: U, options: SampleOptions = {}): Static<U> {
+  const { index = 0, seed = index, optional = true } = options;
+
+  const text = (property: any, path: string): string => {
+    const key = path
+      .split("/")
+      .filter(segment => segment && !/^\d+$/.test(segment))
+      .pop();
+    const minLength: number = property["minLength"] || 0;
+    const maxLength: number = property["maxLength"] || Infinity;
+    return humanize(key || "Text")
+      .padEnd(minLength, ".")
+      .slice(0, maxLength);
+  };
+
+  const placeholder = (property: any, path: string): unknown => {
+    const random = generator(hash(path) ^ seed);
+    const integer = (min: number, max: number) => Math.floor(min + random() * (max - min + 1));
+    /** Integer within bounds that may not be integers, `min` when there is none */
+    const between = (min: number, max: number) =>
+      Math.ceil(min) > Math.floor(max) ? min : integer(Math.ceil(min), Math.floor(max));
+    const kind = Is.kindOf(property);
+    switch (kind) {
+      case "enum":
+      case "enum-keys":
+        return property["enum"][0];
+      case "price": {
+        const [min, max] = bounds(property, 0.01);
+        const value = between(min, max);
+        return value + 0.99 <= max ? value + 0.99 : value;
+      }
+      case "currency":
+        return "USD";
+      case "country":
+        return "US";
+      case "phone":
+        return `+1555${String(integer(0, 9999999)).padStart(7, "0")}`;
+      case "image":
+        return `https://picsum.photos/seed/${integer(1, 1000)}/1200/630`;
+      case "font": {
+        const constraints = property["font"] || {};
+        const families: string[] = Array.isArray(constraints["families"]) ? constraints["families"] : FONTS;
+        const family = families[integer(0, families.length - 1)];
+        return constraints["descriptor"] ? parseFont(family, constraints) : family;
+      }
+      case "url":
+        return "https://flyyer.io";
+      case "color":
+        return (
+          "#" +
+          integer(0, 0xffffff)
+            .toString(16)
+            .toUpperCase()
+            .padStart(6, "0")
+        );
+      case "email":
+        return `user${integer(1, 1000)}@example.com`;
+      case "datetime":
+        return new Date(EPOCH + integer(0, 364) * DAY + integer(0, DAY / 1000) * 1000).toISOString();
+      case "date":
+        return new Date(EPOCH + integer(0, 364) * DAY).toISOString().slice(0, 10);
+      case "time":
+        return `${pad(integer(0, 23))}:${pad(integer(0, 59))}:${pad(integer(0, 59))}Z`;
+      case "integer": {
+        const [min, max] = bounds(property, 1);
+        return between(min, max);
+      }
+      case "number": {
+        const [min, max] = bounds(property, 0.01);
+        // Rounding can cross the bounds, like `0.001` to `0`
+        return Math.min(max, Math.max(min, Number((min + random() * (max - min)).toFixed(2))));
+      }
+      case "boolean":
+        return random() < 0.5;
+      case "localized":
+      case "text":
+        return text(property, path);
+      case "richtext": {
+        const constraints = property["richText"] || {};
+        const value = text(property, path);
+        if (constraints["output"] === "ast") return parseRichText(value);
+        return constraints["output"] === "html" ? renderRichText(parseRichText(value)) : value;
+      }
+      case "object":
+        return {};
+      case "array":
+        return [];
+      default:
+        return property["type"] === "null" || property["nullable"] ? null : undefined;
+    }
+  };
+
+  const resolve = (property: any, path: string, useExamples: boolean): unknown => {
+    if (!property) return undefined;
+    const examples = property["examples"];
+    if (useExamples && Array.isArray(examples) && examples.length > 0) {
+      return examples[((index % examples.length) + examples.length) % examples.length];
+    }
+    if (property["default"] !== undefined) {
+      return property["default"];
+    }
+    if (property["type"] === "object" && property["properties"]) {
+      const output: { [key: string]: unknown } = {};
+      for (const key of Object.keys(property["properties"])) {
+        const child = property["properties"][key];
+        if (!optional && Is.Optional(child)) continue;
+        const value = resolve(child, `${path}/${key}`, true);
+        if (value !== undefined) output[key] = value;
+      }
+      return output;
+    }
+    if (property["type"] === "array" && property["items"] && !Array.isArray(property["items"])) {
+      const length = Math.max(1, property["minItems"] || 0);
+      return Array.from({ length }, (_, i) => resolve(property["items"], `${path}/${i}`, true));
+    }
+    return placeholder(property, path);
+  };
+
+  // Root `examples` are ignored, properties are resolved one by one.
+  return resolve(schema, "", false) as Static<U>;
+}
@@ -0,0 +1,194 @@
+import {
+  AnyKind,
+  ArrayKind,
+  BooleanKind,
+  BoxKind,
+  ConstructorKind,
+  EnumKind,
+  FunctionKind,
+  IntegerKind,
+  IntersectKind,
+  KeyOfKind,
+  LiteralKind,
+  NullKind,
+  NumberKind,
+  ObjectKind,
+  OptionalModifier,
+  PromiseKind,
+  ReadonlyModifier,
+  ReadonlyOptionalModifier,
+  RecordIndexKind,
+  RecordKind,
+  StringKind,
+  TSchema,
+  TupleKind,
+  UndefinedKind,
+  UnionKind,
+  UnknownKind,
+  VoidKind,
+} from "@sinclair/typebox";
+
+/** JSON-safe schema returned by `toJSON` */
+export type SchemaJSON = { [key: string]: unknown };
+
+/** TypeBox symbols by name, used as the serialized value of `kind` and `modifier`. */
+const SYMBOLS: { [name: string]: symbol } = {
+  AnyKind,
+  ArrayKind,
+  BooleanKind,
+  BoxKind,
+  ConstructorKind,
+  EnumKind,
+  FunctionKind,
+  IntegerKind,
+  IntersectKind,
+  KeyOfKind,
+  LiteralKind,
+  NullKind,
+  NumberKind,
+  ObjectKind,
+  PromiseKind,
+  RecordIndexKind,
+  RecordKind,
+  StringKind,
+  TupleKind,
+  UndefinedKind,
+  UnionKind,
+  UnknownKind,
+  VoidKind,
+  OptionalModifier,
+  ReadonlyModifier,
+  ReadonlyOptionalModifier,
+};
+const NAMES = new Map<symbol, string>(Object.keys(SYMBOLS).map(name => [SYMBOLS[name] as symbol, name]));
+
+/** Keywords with a single subschema */
+const SCHEMA_KEYWORDS = [
+  "items",
+  "additionalProperties",
+  "additionalItems",
+  "propertyNames",
+  "contains",
+  "not",
+  "if",
+  "then",
+  "else",
+];
+/** Keywords with an array of subschemas */
+const SCHEMA_ARRAY_KEYWORDS = ["items", "anyOf", "allOf", "oneOf"];
+/** Keywords with a map of subschemas */
+const SCHEMA_MAP_KEYWORDS = ["properties", "patternProperties", "definitions", "$defs"];
+
+type Node = { [key: string]: any };
+
+function isObject(value: unknown): value is Node {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Copy a schema calling `visit` on every schema node (children first). Values like `default` or `examples` are cloned.
+ */
+function map(schema: Node, visit: (node: Node) => Node): Node {
+  const output: Node = {};
+  for (const key of Object.keys(schema)) {
+    const value = schema[key];
+    if (SCHEMA_KEYWORDS.includes(key) && isObject(value)) {
+      output[key] = map(value, visit);
+    } else if (SCHEMA_ARRAY_KEYWORDS.includes(key) && Array.isArray(value)) {
+      output[key] = value.map(item => (isObject(item) ? map(item, visit) : item));
+    } else if (SCHEMA_MAP_KEYWORDS.includes(key) && isObject(value)) {
+      output[key] = {};
+      for (const name of Object.keys(value)) {
+        output[key][name] = isObject(value[name]) ? map(value[name], visit) : value[name];
+      }
+    } else if (typeof value === "object" && value !== null) {
+      output[key] = JSON.parse(JSON.stringify(value));
+    } else {
+      output[key] = value;
+    }
+  }
+  return visit(output);
+}
+
+/** Kind of schemas serialized with `JSON.stringify` instead of `toJSON` */
+function infer(node: Node): symbol {
+  if (Array.isArray(node["enum"])) return EnumKind;
+  if ("const" in node) return LiteralKind;
+  if (Array.isArray(node["anyOf"])) return UnionKind;
+  if (Array.isArray(node["allOf"])) return IntersectKind;
+  switch (node["type"]) {
+    case "object":
+      return node["properties"] || !node["patternProperties"] ? ObjectKind : RecordKind;
+    case "array":
+      return Array.isArray(node["items"]) ? TupleKind : ArrayKind;
+    case "string":
+      return StringKind;
+    case "number":
+      return NumberKind;
+    case "integer":
+      return IntegerKind;
+    case "boolean":
+      return BooleanKind;
+    case "null":
+      return NullKind;
+    default:
+      return UnknownKind;
+  }
+}
+
+/**
+ * Convert a schema into a JSON-safe object. TypeBox symbols of `kind` and `modifier` are replaced with their names
+ * like `"StringKind"` and `"OptionalModifier"`, use `fromJSON` to get them back.
+ *
+ * Functions such as `V.Versioned` migrations are not serialized.
+ * @example
+ * import { Variable as V, toJSON } from "@flyyer/variables";
+ * export const schema = V.Object({ title: V.Optional(V.String()) });
+ * const body = JSON.stringify(toJSON(schema));
+ * // {"kind":"ObjectKind","type":"object","properties":{"title":{"kind":"StringKind","type":"string","modifier":"OptionalModifier"}}}
+ */
+export function toJSON(schema: TSchema): SchemaJSON {
+  return map(schema, node => {
+    for (const keyword of ["kind", "modifier"]) {
+      const value = node[keyword];
+      if (typeof value === "symbol") {
+        const name = NAMES.get(value);
+        if (name) node[keyword] = name;
+        else delete node[keyword];
+      }
+    }
+    return node;
+  });
+}
+
+/**
+ * Rebuild a schema from `toJSON` output (as object or string) with the TypeBox symbols of `kind` and `modifier`.
+ *
+ * Schemas serialized with plain `JSON.stringify` are supported too: kinds are inferred from `type` and properties
+ * missing from `required` are considered `V.Optional`.
+ * @example
+ * import { fromJSON, Is, Validator } from "@flyyer/variables";
+ * const schema = fromJSON(request.body);
+ * const validator = new Validator(schema);
+ * Is.Optional(schema.properties.title) // true
+ */
+export function fromJSON<T extends TSchema = TSchema>(json: string | SchemaJSON): T {
+  const root: SchemaJSON = typeof json === "string" ? JSON.parse(json) : json;
+  const inferred = typeof root["kind"] !== "string";
+  return map(root, node => {
+    for (const keyword of ["kind", "modifier"]) {
+      const value = node[keyword];
+      if (typeof value === "string" && SYMBOLS[value]) node[keyword] = SYMBOLS[value];
+    }
+    if (!inferred) return node;
+    node["kind"] = infer(node);
+    if (isObject(node["properties"])) {
+      const required: string[] = Array.isArray(node["required"]) ? node["required"] : [];
+      for (const key of Object.keys(node["properties"])) {
+        const property = node["properties"][key];
+        if (isObject(property) && !required.includes(key)) property["modifier"] = OptionalModifier;
+      }
+    }
+    return node;
+  }) as T;
+}
@@ -0,0 +1,100 @@
+import {
+  OptionalPropertyKeys,
+  ReadonlyOptionalPropertyKeys,
+  ReadonlyPropertyKeys,
+  ReduceModifiers,
+  RequiredPropertyKeys,
+  TArray,
+  TObject,
+  TSchema,
+  TString,
+  TUnion,
+} from "@sinclair/typebox";
+
+import { Is, Static } from "./index";
+
+// `lib` doesn't include DOM nor Node.js globals, both environments have it.
+declare const URL: { new (url: string, base?: string): { toString(): string } };
+
+export interface TransformOptions {
+  /** Convert `V.DateTime` and `V.Date` values into `Date` instances. */
+  transform: true;
+  /** Case of normalized `V.ColorHex` values. Defaults to `"upper"` */
+  colorCase?: "upper" | "lower";
+  /** Resolve relative `V.URL` and `V.Image` values against this URL. */
+  baseURL?: string;
+}
+
+/** Schema returned by `V.DateTime` and `V.Date` */
+export type TDateTime = TString & { format: "date-time" | "date" };
+
+/**
+ * Same as `Static` but `V.DateTime` and `V.Date` are typed as `Date`. Used by `validator.parse(variables, { transform: true })`.
+ */
+export type StaticTransformed<T> = T extends TDateTime
+  ? Date
+  : T extends TObject<infer U>
+  ? ReduceModifiers<
+      { readonly [K in ReadonlyOptionalPropertyKeys<U>]?: StaticTransformed<U[K]> } &
+        { readonly [K in ReadonlyPropertyKeys<U>]: StaticTransformed<U[K]> } &
+        { [K in OptionalPropertyKeys<U>]?: StaticTransformed<U[K]> } &
+        { [K in RequiredPropertyKeys<U>]: StaticTransformed<U[K]> }
+    >
+  : T extends TArray<infer U>
+  ? StaticTransformed<U>[]
+  : T extends TUnion<infer U>
+  ? { [K in keyof U]: StaticTransformed<U[K]> }[number]
+  : Static<T>;
+
+const REGEX_HEX = /^#?([0-9a-f]+)$/i;
+
+/**
+ * Add leading `#`, expand 3 and 4 digits forms and apply case.
+ */
+export function normalizeColorHex(value: string, colorCase: "upper" | "lower" = "upper"): string {
+  const match = REGEX_HEX.exec(value);
+  if (!match || !match[1]) return value;
+  let digits = match[1];
+  if (digits.length === 3 || digits.length === 4) {
+    digits = digits
+      .split("")
+      .map(digit => digit + digit)
+      .join("");
+  }
+  const hex = "#" + digits;
+  return colorCase === "upper" ? hex.toUpperCase() : hex.toLowerCase();
+}
+
+/**
+ * Returns a copy of `value` with dates, colors and URLs transformed. Values with unexpected shapes are kept as they are.
+ */
+export function transform(schema: TSchema, value: unknown, options: TransformOptions): unknown {
+  if (value === null || value === undefined || !schema) return value;
+  const property = schema as any;
+  if (typeof value === "string") {
+    if (Is.DateTime(property) || Is.Date(property)) {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? value : date;
+    } else if (Is.ColorHex(property)) {
+      return normalizeColorHex(value, options.colorCase);
+    } else if (Is.URL(property) && options.baseURL) {
+      try {
+        return new URL(value, options.baseURL).toString();
+      } catch (e) {
+        return value;
+      }
+    }
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return property["items"] ? value.map(item => transform(property["items"], item, options)) : value;
+  }
+  if (typeof value === "object" && property["properties"]) {
+    const output: { [key: string]: unknown } = { ...(value as any) };
+    for (const key of Object.keys(property["properties"])) {
+      if (key in output) output[key] = transform(property["properties"][key], output[key], options);
+    }
+    return output;
+  }
+  return value;
+}
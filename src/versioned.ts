@@ -0,0 +1,58 @@
+import { TSchema } from "@sinclair/typebox";
+
+/** Key of stored variables with the version of the schema they were created with. */
+export const VERSION_KEY = "_version";
+
+/** Migrations are kept under a symbol so they are not part of the JSON Schema output. */
+export const MIGRATIONS = Symbol("Migrations");
+
+export type MigrationVariables = { [key: string]: any };
+
+export interface Migration {
+  /** Version produced by this migration, inputs with a lower version are upgraded with it. */
+  version: number;
+  /** Upgrade variables from the previous version. Receives a copy, can mutate it and return it. */
+  migrate: (variables: MigrationVariables) => MigrationVariables;
+}
+
+export interface VersionedOptions {
+  /** Current version of the schema. Defaults to the version of the last migration (or `1`). */
+  version?: number;
+  /** Ordered by `version`, the first version of a schema is `1` so the first migration is usually version `2`. */
+  migrations?: Migration[];
+}
+
+export interface MigrationReport {
+  /** Version of the input, from `_version` or `1` when missing. */
+  from: number;
+  /** Current version of the schema */
+  to: number;
+  /** Versions of the migrations that ran, in order */
+  applied: number[];
+}
+
+/**
+ * Upgrade `variables` to the current version of a schema created with `V.Versioned`.
+ *
+ * Returns `null` as `report` when the schema is not versioned or `variables` is not an object.
+ */
+export function migrate(schema: TSchema, variables: unknown): { variables: unknown; report: MigrationReport | null } {
+  const property = schema as any;
+  const to = property["schemaVersion"];
+  if (typeof to !== "number" || !variables || typeof variables !== "object" || Array.isArray(variables)) {
+    return { variables, report: null };
+  }
+  const migrations: Migration[] = property[MIGRATIONS] || [];
+  let current: MigrationVariables = { ...(variables as MigrationVariables) };
+  const declared = Number(current[VERSION_KEY]);
+  const from = current[VERSION_KEY] === undefined || isNaN(declared) ? 1 : declared;
+  delete current[VERSION_KEY];
+
+  const applied: number[] = [];
+  for (const migration of migrations) {
+    if (migration.version <= from || migration.version > to) continue;
+    current = migration.migrate(current);
+    applied.push(migration.version);
+  }
+  return { variables: current, report: { from, to, applied } };
+}
@@ -0,0 +1,25 @@
+// The CLI (`dist/cli.*.js`) and `compile` (`dist/compile.*.js`) are other entries so Node.js modules and the code
+// generator of Ajv are not part of the templates bundle. They require the library from `./index` to share the same
+// instance with the loaded schemas.
+const path = require("path");
+
+const ENTRIES = ["cli", "compile"];
+
+module.exports = {
+  rollup(config, options) {
+    const entry = path.basename(options.input, ".ts");
+    if (!ENTRIES.includes(entry)) return config;
+    const external = config.external;
+    const { dir, base } = path.parse(config.output.file);
+    return {
+      ...config,
+      external: id => id === "./index" || external(id),
+      output: {
+        ...config.output,
+        file: path.join(dir, base.replace(/^[^.]+/, entry)),
+        // ES modules import the ES module of the library, `dist/index.js` picks the CommonJS one
+        paths: id => (/[\\/]index$/.test(id) ? (options.format === "esm" ? "./variables.esm.js" : "./index") : id),
+      },
+    };
+  },
+};